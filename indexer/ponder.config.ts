@@ -5,56 +5,171 @@ import { AccessPassNFTAbi } from "./abis/AccessPassNFTAbi";
 import { EventAbi } from "./abis/EventAbi";
 import { MarketplaceAbi } from "./abis/MarketplaceAbi";
 import { EventFactoryAbi } from "./abis/EventFactoryAbi";
+import {
+  DeploymentConfigError,
+  deployments,
+  envSuffix,
+  loadDeployment,
+  type LoadedDeployment,
+  type NetworkName,
+  NETWORKS,
+} from "../sdk/deployments";
 
 const FactoryEventAbi = parseAbiItem(
   "event EventCreated(address indexed eventAddress,address indexed creator,string name,uint256 indexed eventId,address accessPassNFT)",
 );
 
-type SupportedChains = "qieMainnet" | "qieTestnet";
+// PONDER_RPC_URL_<NETWORK> wins over the registry's public endpoint
+function rpcUrl(network: NetworkName): string | undefined {
+  return (
+    process.env[`PONDER_RPC_URL_${envSuffix(network)}`] ||
+    deployments[network].chain.rpcUrls[0]
+  );
+}
 
-export default createConfig({
-  chains: {
-    qieMainnet: {
-      id: 1990,
-      rpc: process.env.PONDER_RPC_URL_QIE_MAINNET,
-    },
-    qieTestnet: {
-      id: 1983,
-      rpc: process.env.PONDER_RPC_URL_QIE_TESTNET,
+// A network is indexed when it has an RPC; PONDER_NETWORK limits indexing to
+// one network. Addresses, chain ids and start blocks come from the shared
+// deployment registry, with per-network env overrides (see loadDeployment)
+function indexedDeployment(network: NetworkName): LoadedDeployment | null {
+  const only = process.env.PONDER_NETWORK;
+  if (only && only !== network) {
+    return null;
+  }
+  if (!rpcUrl(network)) {
+    const key = `PONDER_RPC_URL_${envSuffix(network)}`;
+    if (only) {
+      throw new DeploymentConfigError(
+        `${key} must be set: no public RPC is registered for ${network}`,
+      );
     }
-  },
+    console.warn(`[config] ${network} is not indexed: ${key} is not set`);
+    return null;
+  }
+  return loadDeployment(network, process.env);
+}
+
+const selectedNetwork = process.env.PONDER_NETWORK;
+if (selectedNetwork && !NETWORKS.includes(selectedNetwork as NetworkName)) {
+  throw new DeploymentConfigError(
+    `PONDER_NETWORK must be one of: ${NETWORKS.join(", ")}, got "${selectedNetwork}"`,
+  );
+}
+const qieMainnet = indexedDeployment("qieMainnet");
+const qieTestnet = indexedDeployment("qieTestnet");
+if (!qieMainnet && !qieTestnet) {
+  throw new DeploymentConfigError(
+    "No network to index: set PONDER_RPC_URL_<NETWORK> for at least one",
+  );
+}
+
+// Per-network config entries for the networks being indexed. Typed with every
+// network so handlers keep ponder's non-optional context.chain
+function perChain<T>(
+  build: (deployment: LoadedDeployment) => T,
+): Record<NetworkName, T> {
+  return {
+    ...(qieMainnet ? { qieMainnet: build(qieMainnet) } : {}),
+    ...(qieTestnet ? { qieTestnet: build(qieTestnet) } : {}),
+  } as Record<NetworkName, T>;
+}
+
+const LISTING_EXPIRY_INTERVAL = parseInt(
+  process.env.LISTING_EXPIRY_INTERVAL || "60",
+);
+const ACCESS_PASS_UNLOCK_INTERVAL = parseInt(
+  process.env.ACCESS_PASS_UNLOCK_INTERVAL || "60",
+);
+// Balance snapshots are reads at the polled block, so historical polls need an
+// archive node. By default only new blocks are polled, so balance history
+// (and the runway endpoint's balance) stays empty until the first poll after
+// the indexer reaches the chain head; GATEKEEPER_BALANCE_START_BLOCK_<NETWORK>
+// backfills from a given block (e.g. the factory start block) and
+// GATEKEEPER_BALANCE_INTERVAL_<NETWORK> overrides GATEKEEPER_BALANCE_INTERVAL
+function gatekeeperBalancePoll(deployment: LoadedDeployment) {
+  const suffix = envSuffix(deployment.network);
+  const startBlock = process.env[`GATEKEEPER_BALANCE_START_BLOCK_${suffix}`];
+  return {
+    startBlock: startBlock ? parseInt(startBlock) : ("latest" as const),
+    interval: parseInt(
+      process.env[`GATEKEEPER_BALANCE_INTERVAL_${suffix}`] ||
+        process.env.GATEKEEPER_BALANCE_INTERVAL ||
+        "60",
+    ),
+  };
+}
+
+// Every Event clone the factory deploys, per network
+const eventClones = perChain((deployment) => ({
+  address: factory({
+    address: deployment.contracts.eventFactory,
+    event: FactoryEventAbi,
+    parameter: "eventAddress",
+  }),
+  startBlock: deployment.startBlocks.eventFactory,
+}));
+
+export default createConfig({
+  chains: perChain((deployment) => ({
+    id: deployment.chain.id,
+    rpc: rpcUrl(deployment.network)!,
+  })),
   contracts: {
     Event: {
-      chain: process.env.PONDER_NETWORK as SupportedChains,
       abi: EventAbi,
-      address: factory({
-        address: process.env.EVENT_FACTORY_ADDRESS as `0x${string}`,
-        event: FactoryEventAbi,
-        parameter: "eventAddress",
-      }),
-      startBlock: parseInt(process.env.FACTORY_START_BLOCK || "0"),
+      chain: eventClones,
+    },
+    // The same clones, indexed only for TicketRedeemed so that receipts (gas
+    // used and effective gas price for redemption cost accounting) are fetched
+    // for redemption transactions and not for every Event log
+    EventRedemption: {
+      abi: EventAbi,
+      includeTransactionReceipts: true,
+      chain: eventClones,
     },
     AccessPassNFT: {
-      chain: process.env.PONDER_NETWORK as SupportedChains,
       abi: AccessPassNFTAbi,
-      address: factory({
-        address: process.env.EVENT_FACTORY_ADDRESS as `0x${string}`,
-        event: FactoryEventAbi,
-        parameter: "accessPassNFT",
-      }),
-      startBlock: parseInt(process.env.FACTORY_START_BLOCK || "0"),
+      chain: perChain((deployment) => ({
+        address: factory({
+          address: deployment.contracts.eventFactory,
+          event: FactoryEventAbi,
+          parameter: "accessPassNFT",
+        }),
+        startBlock: deployment.startBlocks.eventFactory,
+      })),
     },
     EventFactory: {
-      chain: process.env.PONDER_NETWORK as SupportedChains,
       abi: EventFactoryAbi,
-      address: process.env.EVENT_FACTORY_ADDRESS as `0x${string}`,
-      startBlock: parseInt(process.env.FACTORY_START_BLOCK || "0"),
+      chain: perChain((deployment) => ({
+        address: deployment.contracts.eventFactory,
+        startBlock: deployment.startBlocks.eventFactory,
+      })),
     },
     Marketplace: {
-      chain: process.env.PONDER_NETWORK as SupportedChains,
       abi: MarketplaceAbi,
-      address: process.env.MARKETPLACE_ADDRESS as `0x${string}`,
-      startBlock: parseInt(process.env.MARKETPLACE_START_BLOCK || "0"),
+      chain: perChain((deployment) => ({
+        address: deployment.contracts.marketplace,
+        startBlock: deployment.startBlocks.marketplace,
+      })),
+    },
+  },
+  blocks: {
+    // Periodically marks listings whose expirationTime has passed
+    ListingExpiry: {
+      chain: perChain((deployment) => ({
+        startBlock: deployment.startBlocks.marketplace,
+      })),
+      interval: LISTING_EXPIRY_INTERVAL,
+    },
+    // Periodically marks access passes whose transfer lock has elapsed
+    AccessPassUnlock: {
+      chain: perChain((deployment) => ({
+        startBlock: deployment.startBlocks.eventFactory,
+      })),
+      interval: ACCESS_PASS_UNLOCK_INTERVAL,
+    },
+    // Periodically snapshots native balances of active gatekeepers
+    GatekeeperBalance: {
+      chain: perChain(gatekeeperBalancePoll),
     },
   },
 });
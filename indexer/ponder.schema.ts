@@ -1,27 +1,101 @@
-import { onchainTable, relations } from "ponder";
+import { index, onchainEnum, onchainTable, relations } from "ponder";
+
+// ==================== ENUMS ====================
+
+export const listingStatus = onchainEnum("listing_status", [
+  "fillable", // seller holds enough tickets and has approved the marketplace
+  "underfunded", // seller holds fewer tickets than quantityRemaining
+  "unapproved", // seller has not approved (or revoked) the marketplace
+]);
+
+export const tierRevisionKind = onchainEnum("tier_revision_kind", [
+  "created", // TierCreated
+  "updated", // TierUpdated (price / maxSupply)
+  "activeChanged", // TierActiveStatusChanged
+]);
+
+export const ticketTransferKind = onchainEnum("ticket_transfer_kind", [
+  "mint", // primary sale (buyTickets)
+  "burn", // burn not tied to a redemption
+  "transfer", // direct wallet-to-wallet transfer
+  "marketplace", // secondary sale (buyListing)
+  "redemption", // burned by redeemTicket
+]);
+
+export const implementationKind = onchainEnum("implementation_kind", [
+  "event", // EventFactory.implementation
+  "accessPassNFT", // EventFactory.accessPassNFTImplementation
+]);
 
 // ==================== TABLES ====================
 
 export const user = onchainTable("user", (t) => ({
-  id: t.hex().primaryKey(), // wallet address
+  id: t.hex().primaryKey(), // wallet address (shared across chains)
 }));
 
 export const event = onchainTable("event", (t) => ({
-  id: t.text().primaryKey(), // eventAddress
+  id: t.text().primaryKey(), // chainId-eventAddress
+  chainId: t.integer().notNull(),
+  address: t.hex().notNull(), // Event contract address
   eventId: t.bigint().notNull(),
   name: t.text().notNull(),
   symbol: t.text().notNull(),
-  baseURI: t.text().notNull(),
-  creatorId: t.hex().notNull(), // FK to user
+  baseURI: t.text(), // null when not in the createEvent calldata (not readable from the Event)
+  creatorId: t.hex().notNull(), // FK to user (factory caller, never changes)
+  ownerId: t.hex().notNull(), // FK to user (current Ownable owner, zero once renounced)
   accessPassNFT: t.hex().notNull(),
   royaltyBps: t.integer().notNull(),
+  royaltyReceiver: t.hex().notNull(), // ERC-2981 default receiver, fixed to the initial admin
+  royaltyReceiverMismatch: t.boolean().notNull(), // ownerId != royaltyReceiver
   totalTicketsSold: t.bigint().notNull(),
   totalTicketsRedeemed: t.bigint().notNull(),
+  primaryRevenue: t.bigint().notNull(), // sum of TicketsPurchased.totalPaid
+  totalWithdrawn: t.bigint().notNull(),
+  unwithdrawnBalance: t.bigint().notNull(),
+  redemptionGasUsed: t.bigint().notNull(), // paid by gatekeepers across all redemptions
+  redemptionGasCost: t.bigint().notNull(),
   createdAt: t.bigint().notNull(),
+  createdBlock: t.bigint().notNull(),
+  deploymentTxHash: t.hex().notNull(), // createEvent transaction
+  // Implementations live on the factory when this event was cloned
+  eventImplementation: t.hex().notNull(),
+  eventImplementationVersion: t.integer().notNull(), // factoryImplementation.version
+  accessPassNFTImplementation: t.hex().notNull(),
+  accessPassNFTImplementationVersion: t.integer().notNull(), // factoryImplementation.version
 }));
 
+export const factoryImplementation = onchainTable(
+  "factory_implementation",
+  (t) => ({
+    id: t.text().primaryKey(), // chainId-factory-kind-version
+    chainId: t.integer().notNull(),
+    factory: t.hex().notNull(),
+    kind: implementationKind("kind").notNull(),
+    implementation: t.hex().notNull(),
+    // Always 1: the factory's implementations are immutable; a redeployed
+    // factory gets its own rows
+    version: t.integer().notNull(),
+  }),
+);
+
+export const eventOwnershipTransfer = onchainTable(
+  "event_ownership_transfer",
+  (t) => ({
+    id: t.text().primaryKey(), // chainId-txHash-logIndex
+    chainId: t.integer().notNull(),
+    eventId: t.text().notNull(), // FK to event
+    previousOwnerId: t.hex().notNull(), // FK to user (zero address on initialize)
+    newOwnerId: t.hex().notNull(), // FK to user (zero address on renounce)
+    blockNumber: t.bigint().notNull(),
+    timestamp: t.bigint().notNull(),
+    txHash: t.hex().notNull(),
+    logIndex: t.integer().notNull(),
+  }),
+);
+
 export const tier = onchainTable("tier", (t) => ({
-  id: t.text().primaryKey(), // eventAddress-tierId
+  id: t.text().primaryKey(), // chainId-eventAddress-tierId
+  chainId: t.integer().notNull(),
   eventId: t.text().notNull(), // FK to event
   tierId: t.bigint().notNull(),
   tierName: t.text().notNull(),
@@ -32,47 +106,140 @@ export const tier = onchainTable("tier", (t) => ({
   ticketsRedeemed: t.bigint().notNull(),
 }));
 
+// Tier configuration after each change, for pricing audits
+export const tierRevision = onchainTable("tier_revision", (t) => ({
+  id: t.text().primaryKey(), // chainId-txHash-logIndex
+  chainId: t.integer().notNull(),
+  eventId: t.text().notNull(), // FK to event
+  tierId: t.text().notNull(), // FK to tier
+  kind: tierRevisionKind("kind").notNull(),
+  price: t.bigint().notNull(),
+  maxSupply: t.bigint().notNull(),
+  active: t.boolean().notNull(),
+  blockNumber: t.bigint().notNull(),
+  timestamp: t.bigint().notNull(),
+  txHash: t.hex().notNull(),
+  logIndex: t.integer().notNull(),
+}));
+
 export const ticketBalance = onchainTable("ticket_balance", (t) => ({
-  id: t.text().primaryKey(), // eventAddress-tierId-userId
+  id: t.text().primaryKey(), // chainId-eventAddress-tierId-userId
+  chainId: t.integer().notNull(),
   eventId: t.text().notNull(), // FK to event
   tierId: t.text().notNull(), // FK to tier
   userId: t.hex().notNull(), // FK to user
   balance: t.bigint().notNull(),
 }));
 
+// Every ERC-1155 movement, one row per id/value pair of a TransferBatch
+export const ticketTransfer = onchainTable(
+  "ticket_transfer",
+  (t) => ({
+    id: t.text().primaryKey(), // chainId-txHash-logIndex-batchIndex
+    chainId: t.integer().notNull(),
+    eventId: t.text().notNull(), // FK to event
+    tierId: t.text().notNull(), // FK to tier
+    fromId: t.hex().notNull(), // FK to user (zero address on mint)
+    toId: t.hex().notNull(), // FK to user (zero address on burn)
+    operator: t.hex().notNull(),
+    value: t.bigint().notNull(),
+    kind: ticketTransferKind("kind").notNull(),
+    blockNumber: t.bigint().notNull(),
+    timestamp: t.bigint().notNull(),
+    txHash: t.hex().notNull(),
+    logIndex: t.integer().notNull(),
+  }),
+  (table) => ({
+    // Same-transaction lookups when classifying marketplace sales and redemptions
+    txHashIdx: index().on(table.txHash),
+  }),
+);
+
 export const ticketPurchase = onchainTable("ticket_purchase", (t) => ({
-  id: t.text().primaryKey(), // txHash-logIndex
+  id: t.text().primaryKey(), // chainId-txHash-logIndex
+  chainId: t.integer().notNull(),
   eventId: t.text().notNull(), // FK to event
   tierId: t.text().notNull(), // FK to tier
   buyerId: t.hex().notNull(), // FK to user
   quantity: t.bigint().notNull(),
+  unitPrice: t.bigint().notNull(), // tier price at purchase (totalPaid / quantity)
   totalPaid: t.bigint().notNull(),
+  blockNumber: t.bigint().notNull(),
   timestamp: t.bigint().notNull(),
   txHash: t.hex().notNull(),
+  logIndex: t.integer().notNull(),
 }));
 
 export const ticketRedemption = onchainTable("ticket_redemption", (t) => ({
-  id: t.text().primaryKey(), // txHash-logIndex
+  id: t.text().primaryKey(), // chainId-txHash-logIndex
+  chainId: t.integer().notNull(),
   eventId: t.text().notNull(), // FK to event
   tierId: t.text().notNull(), // FK to tier
   userId: t.hex().notNull(), // FK to user
+  gatekeeperId: t.hex().notNull(), // FK to user (transaction sender that submitted redeemTicket)
   accessPassId: t.bigint().notNull(),
+  blockNumber: t.bigint().notNull(),
   timestamp: t.bigint().notNull(),
   txHash: t.hex().notNull(),
+  logIndex: t.integer().notNull(),
+  // From the transaction receipt; paid by the gatekeeper
+  gasUsed: t.bigint().notNull(),
+  effectiveGasPrice: t.bigint().notNull(),
+  gasCost: t.bigint().notNull(), // gasUsed * effectiveGasPrice (wei)
+}));
+
+export const redemptionNonce = onchainTable("redemption_nonce", (t) => ({
+  id: t.text().primaryKey(), // chainId-eventAddress-userId
+  chainId: t.integer().notNull(),
+  eventId: t.text().notNull(), // FK to event
+  userId: t.hex().notNull(), // FK to user (ticket holder)
+  nonce: t.bigint().notNull(), // next nonce redeemTicket will consume (= redemption count)
+  updatedAt: t.bigint().notNull(),
 }));
 
 export const accessPass = onchainTable("access_pass", (t) => ({
-  id: t.text().primaryKey(), // accessPassNFT-tokenId
+  id: t.text().primaryKey(), // chainId-accessPassNFT-tokenId
+  chainId: t.integer().notNull(),
   accessPassNFT: t.hex().notNull(),
   eventId: t.text().notNull(), // FK to event
   tokenId: t.bigint().notNull(),
-  tierId: t.text().notNull(), // FK to tier (composite key: eventAddress-tierId)
-  ownerId: t.hex().notNull(), // FK to user
+  tierId: t.text().notNull(), // FK to tier (composite key: chainId-eventAddress-tierId)
+  ownerId: t.hex().notNull(), // FK to user (last owner once burned)
   mintTimestamp: t.bigint().notNull(),
+  lockDuration: t.bigint().notNull(), // collection's lockDuration at mint
+  unlockAt: t.bigint().notNull(), // transferUnlockTime: mintTimestamp + lockDuration
+  transferable: t.boolean().notNull(), // unlockAt <= latest indexed block timestamp, false once burned
+  transferCount: t.integer().notNull(), // owner changes after mint, i.e. after entry
+  burned: t.boolean().notNull(),
+  burnedAt: t.bigint(),
 }));
 
+export const accessPassTransfer = onchainTable("access_pass_transfer", (t) => ({
+  id: t.text().primaryKey(), // chainId-txHash-logIndex
+  chainId: t.integer().notNull(),
+  accessPassId: t.text().notNull(), // FK to accessPass
+  eventId: t.text().notNull(), // FK to event
+  tokenId: t.bigint().notNull(),
+  fromId: t.hex().notNull(), // FK to user (zero address on mint)
+  toId: t.hex().notNull(), // FK to user (zero address on burn)
+  blockNumber: t.bigint().notNull(),
+  timestamp: t.bigint().notNull(),
+  txHash: t.hex().notNull(),
+}));
+
+// AccessPassNFT -> Event lookup, written on EventCreated so mint handlers need no RPC read
+export const accessPassCollection = onchainTable(
+  "access_pass_collection",
+  (t) => ({
+    id: t.text().primaryKey(), // chainId-accessPassNFT
+    chainId: t.integer().notNull(),
+    eventId: t.text().notNull(), // FK to event
+  }),
+);
+
 export const listing = onchainTable("listing", (t) => ({
-  id: t.text().primaryKey(), // listingId
+  id: t.text().primaryKey(), // chainId-listingId
+  chainId: t.integer().notNull(),
   listingId: t.bigint().notNull(),
   sellerId: t.hex().notNull(), // FK to user
   eventId: t.text().notNull(), // FK to event
@@ -82,44 +249,222 @@ export const listing = onchainTable("listing", (t) => ({
   pricePerUnit: t.bigint().notNull(),
   expirationTime: t.bigint().notNull(),
   active: t.boolean().notNull(),
+  expired: t.boolean().notNull(), // expirationTime <= latest indexed block timestamp
+  expiredAt: t.bigint(), // expirationTime, once the listing is seen as expired
+  fillableQuantity: t.bigint().notNull(), // min(quantityRemaining, seller balance), 0 if unapproved
+  status: listingStatus("status").notNull(),
   createdAt: t.bigint().notNull(),
+  createdBlockNumber: t.bigint().notNull(),
+  createdLogIndex: t.integer().notNull(),
+  // Position of the latest change (see BLOCK_HANDLER_LOG_INDEX for block handlers)
+  updatedBlockNumber: t.bigint().notNull(),
+  updatedLogIndex: t.integer().notNull(),
   txHash: t.hex().notNull(),
 }));
 
 export const listingPurchase = onchainTable("listing_purchase", (t) => ({
-  id: t.text().primaryKey(), // txHash-logIndex
+  id: t.text().primaryKey(), // chainId-txHash-logIndex
+  chainId: t.integer().notNull(),
   listingId: t.text().notNull(), // FK to listing
   buyerId: t.hex().notNull(), // FK to user
   quantity: t.bigint().notNull(),
   totalPrice: t.bigint().notNull(),
   royaltyPaid: t.bigint().notNull(),
   royaltyReceiver: t.hex().notNull(),
+  blockNumber: t.bigint().notNull(),
+  timestamp: t.bigint().notNull(),
+  txHash: t.hex().notNull(),
+  logIndex: t.integer().notNull(),
+}));
+
+export const gatekeeper = onchainTable("gatekeeper", (t) => ({
+  id: t.text().primaryKey(), // chainId-eventAddress-gatekeeperAddress
+  chainId: t.integer().notNull(),
+  eventId: t.text().notNull(), // FK to event
+  userId: t.hex().notNull(), // FK to user (gatekeeper address)
+  active: t.boolean().notNull(),
+  addedAt: t.bigint().notNull(),
+  addedTxHash: t.hex().notNull(),
+  removedAt: t.bigint(), // null while active
+  removedTxHash: t.hex(), // null while active
+  redemptionCount: t.integer().notNull(),
+  lastSeenAt: t.bigint(), // last redemption submitted by this device, null until the first
+  lastSeenTxHash: t.hex(),
+  totalGasUsed: t.bigint().notNull(), // redeemTicket gas for this event
+  totalGasCost: t.bigint().notNull(),
+}));
+
+// Native balance and gas spend of a gatekeeper address across all events on a chain
+export const gatekeeperWallet = onchainTable("gatekeeper_wallet", (t) => ({
+  id: t.text().primaryKey(), // chainId-gatekeeperAddress
+  chainId: t.integer().notNull(),
+  userId: t.hex().notNull(), // FK to user
+  redemptionCount: t.integer().notNull(),
+  totalGasUsed: t.bigint().notNull(),
+  totalGasCost: t.bigint().notNull(),
+  balance: t.bigint(), // latest polled native balance, null until the first poll
+  balanceBlock: t.bigint(),
+  balanceUpdatedAt: t.bigint(),
+}));
+
+// Polled native balance, one row per change
+export const gatekeeperBalance = onchainTable("gatekeeper_balance", (t) => ({
+  id: t.text().primaryKey(), // chainId-gatekeeperAddress-blockNumber
+  chainId: t.integer().notNull(),
+  walletId: t.text().notNull(), // FK to gatekeeperWallet
+  balance: t.bigint().notNull(),
+  blockNumber: t.bigint().notNull(),
+  timestamp: t.bigint().notNull(),
+}));
+
+export const gatekeeperMinuteStats = onchainTable(
+  "gatekeeper_minute_stats",
+  (t) => ({
+    id: t.text().primaryKey(), // chainId-eventAddress-gatekeeperAddress-minuteStartTimestamp
+    chainId: t.integer().notNull(),
+    eventId: t.text().notNull(), // FK to event
+    gatekeeperId: t.text().notNull(), // FK to gatekeeper
+    minute: t.bigint().notNull(), // minute start (unix seconds)
+    redemptionCount: t.integer().notNull(),
+    firstRedemptionAt: t.bigint().notNull(),
+    lastRedemptionAt: t.bigint().notNull(),
+  }),
+);
+
+export const gatekeeperHourStats = onchainTable(
+  "gatekeeper_hour_stats",
+  (t) => ({
+    id: t.text().primaryKey(), // chainId-eventAddress-gatekeeperAddress-hourStartTimestamp
+    chainId: t.integer().notNull(),
+    eventId: t.text().notNull(), // FK to event
+    gatekeeperId: t.text().notNull(), // FK to gatekeeper
+    hour: t.bigint().notNull(), // hour start (unix seconds)
+    redemptionCount: t.integer().notNull(),
+    firstRedemptionAt: t.bigint().notNull(),
+    lastRedemptionAt: t.bigint().notNull(),
+  }),
+);
+
+export const ticketApproval = onchainTable("ticket_approval", (t) => ({
+  id: t.text().primaryKey(), // chainId-eventAddress-account-operator
+  chainId: t.integer().notNull(),
+  eventId: t.text().notNull(), // FK to event
+  userId: t.hex().notNull(), // FK to user (approving account)
+  operator: t.hex().notNull(),
+  approved: t.boolean().notNull(),
+  updatedAt: t.bigint().notNull(),
+}));
+
+export const marketplaceState = onchainTable("marketplace_state", (t) => ({
+  id: t.text().primaryKey(), // chainId-marketplaceAddress (one row per chain)
+  chainId: t.integer().notNull(),
+  address: t.hex().notNull(), // Marketplace contract address
+  paused: t.boolean().notNull(),
+  updatedAt: t.bigint().notNull(),
+  updatedTxHash: t.hex().notNull(),
+}));
+
+export const marketplacePauseChange = onchainTable("marketplace_pause_change", (t) => ({
+  id: t.text().primaryKey(), // chainId-txHash-logIndex
+  chainId: t.integer().notNull(),
+  marketplaceId: t.text().notNull(), // FK to marketplaceState
+  paused: t.boolean().notNull(),
+  accountId: t.hex().notNull(), // FK to user (owner that paused/unpaused)
   timestamp: t.bigint().notNull(),
   txHash: t.hex().notNull(),
 }));
 
+export const withdrawal = onchainTable("withdrawal", (t) => ({
+  id: t.text().primaryKey(), // chainId-txHash-logIndex
+  chainId: t.integer().notNull(),
+  eventId: t.text().notNull(), // FK to event
+  recipientId: t.hex().notNull(), // FK to user
+  amount: t.bigint().notNull(),
+  timestamp: t.bigint().notNull(),
+  txHash: t.hex().notNull(),
+}));
+
+export const eventRoyalty = onchainTable("event_royalty", (t) => ({
+  id: t.text().primaryKey(), // chainId-eventAddress
+  chainId: t.integer().notNull(),
+  eventId: t.text().notNull(), // FK to event
+  totalRoyalties: t.bigint().notNull(),
+  totalVolume: t.bigint().notNull(), // secondary sales volume
+  purchaseCount: t.integer().notNull(),
+  lastPurchaseAt: t.bigint().notNull(),
+}));
+
+export const receiverRoyalty = onchainTable("receiver_royalty", (t) => ({
+  id: t.text().primaryKey(), // chainId-royaltyReceiver
+  chainId: t.integer().notNull(),
+  userId: t.hex().notNull(), // FK to user
+  totalRoyalties: t.bigint().notNull(),
+  purchaseCount: t.integer().notNull(),
+  lastPurchaseAt: t.bigint().notNull(),
+}));
+
+export const dailyRoyalty = onchainTable("daily_royalty", (t) => ({
+  id: t.text().primaryKey(), // chainId-eventAddress-dayStartTimestamp
+  chainId: t.integer().notNull(),
+  eventId: t.text().notNull(), // FK to event
+  day: t.bigint().notNull(), // UTC day start (unix seconds)
+  totalRoyalties: t.bigint().notNull(),
+  totalVolume: t.bigint().notNull(),
+  purchaseCount: t.integer().notNull(),
+}));
+
 // ==================== RELATIONS ====================
 
 // User relations (one-to-many)
-export const userRelations = relations(user, ({ many }) => ({
-  createdEvents: many(event), // Events created by this user
+export const userRelations = relations(user, ({ one, many }) => ({
+  createdEvents: many(event, { relationName: "createdEvents" }), // Events created by this user
+  ownedEvents: many(event, { relationName: "ownedEvents" }), // Events this user currently owns
   ticketBalances: many(ticketBalance), // Ticket holdings
   accessPasses: many(accessPass), // Access passes owned
   listings: many(listing), // Marketplace listings
   purchases: many(ticketPurchase), // Ticket purchases
-  redemptions: many(ticketRedemption), // Ticket redemptions
+  redemptions: many(ticketRedemption, { relationName: "redemptions" }), // Ticket redemptions
+  gatekeeperRedemptions: many(ticketRedemption, { relationName: "gatekeeperRedemptions" }), // Tickets scanned as gatekeeper
   listingPurchases: many(listingPurchase), // Marketplace purchases
+  gatekeeperRoles: many(gatekeeper), // Events this user scans tickets for
+  gatekeeperWallets: many(gatekeeperWallet), // Gas spend and balance as gatekeeper (per chain)
+  withdrawals: many(withdrawal), // Event funds received
+  redemptionNonces: many(redemptionNonce), // EIP-712 redemption nonces per event
+  ticketApprovals: many(ticketApproval), // ERC-1155 operator approvals
+  royalties: many(receiverRoyalty), // Royalty earnings as receiver (per chain)
+  transfersOut: many(ticketTransfer, { relationName: "transfersOut" }), // Tickets sent
+  transfersIn: many(ticketTransfer, { relationName: "transfersIn" }), // Tickets received
 }));
 
 // Event relations
 export const eventRelations = relations(event, ({ one, many }) => ({
-  creator: one(user, { fields: [event.creatorId], references: [user.id] }),
+  creator: one(user, {
+    fields: [event.creatorId],
+    references: [user.id],
+    relationName: "createdEvents",
+  }),
+  owner: one(user, {
+    fields: [event.ownerId],
+    references: [user.id],
+    relationName: "ownedEvents",
+  }),
+  ownershipTransfers: many(eventOwnershipTransfer),
   tiers: many(tier),
   ticketBalances: many(ticketBalance),
   accessPasses: many(accessPass),
   listings: many(listing),
   purchases: many(ticketPurchase),
   redemptions: many(ticketRedemption),
+  gatekeepers: many(gatekeeper),
+  withdrawals: many(withdrawal),
+  redemptionNonces: many(redemptionNonce),
+  royalty: one(eventRoyalty, { fields: [event.id], references: [eventRoyalty.id] }),
+  dailyRoyalties: many(dailyRoyalty),
+}));
+
+// EventOwnershipTransfer relations
+export const eventOwnershipTransferRelations = relations(eventOwnershipTransfer, ({ one }) => ({
+  event: one(event, { fields: [eventOwnershipTransfer.eventId], references: [event.id] }),
 }));
 
 // Tier relations
@@ -129,6 +474,30 @@ export const tierRelations = relations(tier, ({ one, many }) => ({
   purchases: many(ticketPurchase),
   redemptions: many(ticketRedemption),
   listings: many(listing),
+  revisions: many(tierRevision),
+  transfers: many(ticketTransfer),
+}));
+
+// TicketTransfer relations
+export const ticketTransferRelations = relations(ticketTransfer, ({ one }) => ({
+  event: one(event, { fields: [ticketTransfer.eventId], references: [event.id] }),
+  tier: one(tier, { fields: [ticketTransfer.tierId], references: [tier.id] }),
+  from: one(user, {
+    fields: [ticketTransfer.fromId],
+    references: [user.id],
+    relationName: "transfersOut",
+  }),
+  to: one(user, {
+    fields: [ticketTransfer.toId],
+    references: [user.id],
+    relationName: "transfersIn",
+  }),
+}));
+
+// TierRevision relations
+export const tierRevisionRelations = relations(tierRevision, ({ one }) => ({
+  event: one(event, { fields: [tierRevision.eventId], references: [event.id] }),
+  tier: one(tier, { fields: [tierRevision.tierId], references: [tier.id] }),
 }));
 
 // TicketBalance relations
@@ -149,14 +518,33 @@ export const ticketPurchaseRelations = relations(ticketPurchase, ({ one }) => ({
 export const ticketRedemptionRelations = relations(ticketRedemption, ({ one }) => ({
   event: one(event, { fields: [ticketRedemption.eventId], references: [event.id] }),
   tier: one(tier, { fields: [ticketRedemption.tierId], references: [tier.id] }),
-  user: one(user, { fields: [ticketRedemption.userId], references: [user.id] }),
+  user: one(user, {
+    fields: [ticketRedemption.userId],
+    references: [user.id],
+    relationName: "redemptions",
+  }),
+  gatekeeper: one(user, {
+    fields: [ticketRedemption.gatekeeperId],
+    references: [user.id],
+    relationName: "gatekeeperRedemptions",
+  }),
 }));
 
 // AccessPass relations
-export const accessPassRelations = relations(accessPass, ({ one }) => ({
+export const accessPassRelations = relations(accessPass, ({ one, many }) => ({
   event: one(event, { fields: [accessPass.eventId], references: [event.id] }),
   tier: one(tier, { fields: [accessPass.tierId], references: [tier.id] }),
   owner: one(user, { fields: [accessPass.ownerId], references: [user.id] }),
+  transfers: many(accessPassTransfer),
+}));
+
+// AccessPassTransfer relations
+export const accessPassTransferRelations = relations(accessPassTransfer, ({ one }) => ({
+  accessPass: one(accessPass, {
+    fields: [accessPassTransfer.accessPassId],
+    references: [accessPass.id],
+  }),
+  event: one(event, { fields: [accessPassTransfer.eventId], references: [event.id] }),
 }));
 
 // Listing relations
@@ -172,3 +560,88 @@ export const listingPurchaseRelations = relations(listingPurchase, ({ one }) =>
   listing: one(listing, { fields: [listingPurchase.listingId], references: [listing.id] }),
   buyer: one(user, { fields: [listingPurchase.buyerId], references: [user.id] }),
 }));
+
+// Gatekeeper relations
+export const gatekeeperRelations = relations(gatekeeper, ({ one, many }) => ({
+  event: one(event, { fields: [gatekeeper.eventId], references: [event.id] }),
+  user: one(user, { fields: [gatekeeper.userId], references: [user.id] }),
+  minuteStats: many(gatekeeperMinuteStats),
+  hourStats: many(gatekeeperHourStats),
+}));
+
+// GatekeeperWallet relations
+export const gatekeeperWalletRelations = relations(gatekeeperWallet, ({ one, many }) => ({
+  user: one(user, { fields: [gatekeeperWallet.userId], references: [user.id] }),
+  balances: many(gatekeeperBalance),
+}));
+
+// GatekeeperBalance relations
+export const gatekeeperBalanceRelations = relations(gatekeeperBalance, ({ one }) => ({
+  wallet: one(gatekeeperWallet, {
+    fields: [gatekeeperBalance.walletId],
+    references: [gatekeeperWallet.id],
+  }),
+}));
+
+// GatekeeperMinuteStats relations
+export const gatekeeperMinuteStatsRelations = relations(gatekeeperMinuteStats, ({ one }) => ({
+  gatekeeper: one(gatekeeper, {
+    fields: [gatekeeperMinuteStats.gatekeeperId],
+    references: [gatekeeper.id],
+  }),
+}));
+
+// GatekeeperHourStats relations
+export const gatekeeperHourStatsRelations = relations(gatekeeperHourStats, ({ one }) => ({
+  gatekeeper: one(gatekeeper, {
+    fields: [gatekeeperHourStats.gatekeeperId],
+    references: [gatekeeper.id],
+  }),
+}));
+
+// Withdrawal relations
+export const withdrawalRelations = relations(withdrawal, ({ one }) => ({
+  event: one(event, { fields: [withdrawal.eventId], references: [event.id] }),
+  recipient: one(user, { fields: [withdrawal.recipientId], references: [user.id] }),
+}));
+
+// EventRoyalty relations
+export const eventRoyaltyRelations = relations(eventRoyalty, ({ one }) => ({
+  event: one(event, { fields: [eventRoyalty.eventId], references: [event.id] }),
+}));
+
+// ReceiverRoyalty relations
+export const receiverRoyaltyRelations = relations(receiverRoyalty, ({ one }) => ({
+  user: one(user, { fields: [receiverRoyalty.userId], references: [user.id] }),
+}));
+
+// DailyRoyalty relations
+export const dailyRoyaltyRelations = relations(dailyRoyalty, ({ one }) => ({
+  event: one(event, { fields: [dailyRoyalty.eventId], references: [event.id] }),
+}));
+
+// TicketApproval relations
+export const ticketApprovalRelations = relations(ticketApproval, ({ one }) => ({
+  event: one(event, { fields: [ticketApproval.eventId], references: [event.id] }),
+  user: one(user, { fields: [ticketApproval.userId], references: [user.id] }),
+}));
+
+// MarketplaceState relations
+export const marketplaceStateRelations = relations(marketplaceState, ({ many }) => ({
+  history: many(marketplacePauseChange),
+}));
+
+// MarketplacePauseChange relations
+export const marketplacePauseChangeRelations = relations(marketplacePauseChange, ({ one }) => ({
+  marketplace: one(marketplaceState, {
+    fields: [marketplacePauseChange.marketplaceId],
+    references: [marketplaceState.id],
+  }),
+  account: one(user, { fields: [marketplacePauseChange.accountId], references: [user.id] }),
+}));
+
+// RedemptionNonce relations
+export const redemptionNonceRelations = relations(redemptionNonce, ({ one }) => ({
+  event: one(event, { fields: [redemptionNonce.eventId], references: [event.id] }),
+  user: one(user, { fields: [redemptionNonce.userId], references: [user.id] }),
+}));
@@ -1,61 +1,133 @@
 import { ponder } from "ponder:registry";
-import { accessPass, user } from "ponder:schema";
-import { AccessPassNFTAbi } from "../abis/AccessPassNFTAbi";
+import { and, eq, lte } from "ponder";
+import {
+  accessPass,
+  accessPassCollection,
+  accessPassTransfer,
+  user,
+} from "ponder:schema";
 import { zeroAddress } from "viem";
 
+// AccessPassNFT.lockDuration is a compile-time constant (24 hours), so no RPC read
+const LOCK_DURATION = 24n * 60n * 60n;
+
 // AccessPassMinted Handler
 ponder.on("AccessPassNFT:AccessPassMinted", async ({ event: ev, context }) => {
   const { tokenId, recipient, tierId } = ev.args;
   const accessPassAddress = ev.log.address;
 
-  // Get parent Event address
-  const eventContract = await context.client.readContract({
-    address: accessPassAddress,
-    abi: AccessPassNFTAbi,
-    functionName: "eventContract",
+  // Parent Event, recorded by EventFactory:EventCreated in the deploying transaction
+  const collectionId = `${context.chain.id}-${accessPassAddress}`;
+  const collection = await context.db.find(accessPassCollection, {
+    id: collectionId,
   });
+  if (!collection) {
+    console.warn(`[AccessPassMinted] Collection not found: ${collectionId}`);
+    return;
+  }
 
   // Ensure user exists
   await context.db.insert(user).values({ id: recipient }).onConflictDoNothing();
 
+  // Same value as transferUnlockTime(tokenId); mintTimestamp is block.timestamp
+  const lockDuration = LOCK_DURATION;
+  const unlockAt = ev.block.timestamp + lockDuration;
+
   // Create AccessPass with composite tierId for proper relation to tier table
-  const tierIdStr = `${eventContract}-${tierId}`;
+  const eventId = collection.eventId;
+  const tierIdStr = `${eventId}-${tierId}`;
   await context.db.insert(accessPass).values({
-    id: `${accessPassAddress}-${tokenId}`,
+    id: `${context.chain.id}-${accessPassAddress}-${tokenId}`,
+    chainId: context.chain.id,
     accessPassNFT: accessPassAddress,
-    eventId: eventContract,
+    eventId,
     tokenId,
     tierId: tierIdStr,
     ownerId: recipient,
     mintTimestamp: ev.block.timestamp,
+    lockDuration,
+    unlockAt,
+    transferable: unlockAt <= ev.block.timestamp,
+    transferCount: 0,
+    burned: false,
   });
 });
 
-// Transfer Handler - Update owner (skip mints, from=0x0)
+// Transfer Handler - Record history, update owner (mints are created by AccessPassMinted)
 ponder.on("AccessPassNFT:Transfer", async ({ event: ev, context }) => {
   const { from, to, tokenId } = ev.args;
   const accessPassAddress = ev.log.address;
+  const accessPassId = `${context.chain.id}-${accessPassAddress}-${tokenId}`;
+
+  const collectionId = `${context.chain.id}-${accessPassAddress}`;
+  const collection = await context.db.find(accessPassCollection, {
+    id: collectionId,
+  });
+  if (!collection) {
+    console.warn(`[Transfer] Collection not found: ${collectionId}`);
+    return;
+  }
+
+  // Logged before AccessPassMinted on mint, so the pass row may not exist yet
+  await context.db.insert(accessPassTransfer).values({
+    id: `${context.chain.id}-${ev.transaction.hash}-${ev.log.logIndex}`,
+    chainId: context.chain.id,
+    accessPassId,
+    eventId: collection.eventId,
+    tokenId,
+    fromId: from,
+    toId: to,
+    blockNumber: ev.block.number,
+    timestamp: ev.block.timestamp,
+    txHash: ev.transaction.hash,
+  });
 
   // Skip mint transfers (already handled by AccessPassMinted)
   if (from === zeroAddress) {
     return;
   }
 
-  // Ensure new owner exists
-  if (to !== zeroAddress) {
-    await context.db.insert(user).values({ id: to }).onConflictDoNothing();
+  if (to === zeroAddress) {
+    // Burn - keep the row and its last owner for history
+    await context.db.update(accessPass, { id: accessPassId }).set({
+      burned: true,
+      burnedAt: ev.block.timestamp,
+      transferable: false,
+    });
+    return;
   }
 
-  // Update AccessPass owner
-  const accessPassId = `${accessPassAddress}-${tokenId}`;
+  // Ensure new owner exists
+  await context.db.insert(user).values({ id: to }).onConflictDoNothing();
 
-  if (to === zeroAddress) {
-    // Burn - delete the access pass
-    await context.db.delete(accessPass, { id: accessPassId });
-  } else {
-    // Transfer - update owner
+  // _update reverts during the lock, so a transfer proves the pass is unlocked
+  const existingPass = await context.db.find(accessPass, { id: accessPassId });
+  if (existingPass) {
     await context.db.update(accessPass, { id: accessPassId }).set({
       ownerId: to,
+      transferable: true,
+      transferCount: existingPass.transferCount + 1,
     });
+  } else {
+    console.warn(`[Transfer] Access pass not found: ${accessPassId}`);
+  }
+});
+
+// AccessPassUnlock Block Handler - isTransferable turns true once block.timestamp >= unlockAt
+ponder.on("AccessPassUnlock:block", async ({ event: ev, context }) => {
+  const unlockedPasses = await context.db.sql
+    .select({ id: accessPass.id })
+    .from(accessPass)
+    .where(
+      and(
+        eq(accessPass.chainId, context.chain.id),
+        eq(accessPass.burned, false),
+        eq(accessPass.transferable, false),
+        lte(accessPass.unlockAt, ev.block.timestamp),
+      ),
+    );
+
+  for (const { id } of unlockedPasses) {
+    await context.db.update(accessPass, { id }).set({ transferable: true });
   }
 });
@@ -1,71 +1,192 @@
-import { ponder } from "ponder:registry";
+import { ponder, type Context, type Event } from "ponder:registry";
 import {
   event,
+  eventOwnershipTransfer,
+  gatekeeper,
+  gatekeeperBalance,
+  gatekeeperHourStats,
+  gatekeeperMinuteStats,
+  gatekeeperWallet,
+  redemptionNonce,
   tier,
+  tierRevision,
   ticketBalance,
   ticketPurchase,
+  ticketApproval,
   ticketRedemption,
+  ticketTransfer,
   user,
+  withdrawal,
 } from "ponder:schema";
-import { EventAbi } from "../abis/EventAbi";
-import { zeroAddress } from "viem";
+import { and, eq } from "ponder";
+import { multicall3Abi, zeroAddress } from "viem";
+import { deploymentsByChain } from "./utils/deployments";
+import {
+  getMarketplaceAddress,
+  logChange,
+  refreshSellerListings,
+} from "./utils/listingStatus";
+import { isMulticallMissing } from "./utils/multicall";
+import { reclassifyTicketTransfer } from "./utils/ticketTransfer";
 
-// TierCreated Handler - Also creates partial Event entity due to event ordering
-ponder.on("Event:TierCreated", async ({ event: ev, context }) => {
-  const eventAddress = ev.log.address;
+type TierEventName =
+  | "Event:TierCreated"
+  | "Event:TierUpdated"
+  | "Event:TierActiveStatusChanged";
 
-  // Read contract data to create Event entity
-  const [name, symbol, owner, accessPassNFT] = await Promise.all([
-    context.client.readContract({
-      address: eventAddress,
-      abi: EventAbi,
-      functionName: "name",
-    }),
-    context.client.readContract({
-      address: eventAddress,
-      abi: EventAbi,
-      functionName: "symbol",
-    }),
-    context.client.readContract({
-      address: eventAddress,
-      abi: EventAbi,
-      functionName: "owner",
-    }),
-    context.client.readContract({
-      address: eventAddress,
-      abi: EventAbi,
-      functionName: "accessPassNFT",
-    }),
-  ]);
+// Snapshot the tier configuration after a change
+async function recordTierRevision(
+  context: Context<TierEventName>,
+  ev: Event<TierEventName>,
+  kind: (typeof tierRevision.$inferSelect)["kind"],
+  row: typeof tier.$inferSelect,
+) {
+  await context.db.insert(tierRevision).values({
+    id: `${context.chain.id}-${ev.transaction.hash}-${ev.log.logIndex}`,
+    chainId: context.chain.id,
+    eventId: row.eventId,
+    tierId: row.id,
+    kind,
+    price: row.price,
+    maxSupply: row.maxSupply,
+    active: row.active,
+    blockNumber: ev.block.number,
+    timestamp: ev.block.timestamp,
+    txHash: ev.transaction.hash,
+    logIndex: ev.log.logIndex,
+  });
+}
 
-  // Ensure user exists
-  await context.db.insert(user).values({ id: owner }).onConflictDoNothing();
+const SECONDS_PER_MINUTE = 60n;
+const SECONDS_PER_HOUR = 3600n;
+
+// Per-lane throughput and gas spend for doors-open monitoring. Attributed to the
+// transaction sender, which is the gatekeeper unless redeemTicket is called via
+// a contract; redeemTicket logs one TicketRedeemed per transaction.
+async function recordGatekeeperRedemption(
+  context: Context<"EventRedemption:TicketRedeemed">,
+  ev: Event<"EventRedemption:TicketRedeemed">,
+  eventId: string,
+  gas: { gasUsed: bigint; gasCost: bigint },
+) {
+  const gatekeeperAddress = ev.transaction.from;
+  const gatekeeperId = `${eventId}-${gatekeeperAddress}`;
+  const { timestamp } = ev.block;
+
+  const existingGatekeeper = await context.db.find(gatekeeper, {
+    id: gatekeeperId,
+  });
+  if (existingGatekeeper) {
+    await context.db.update(gatekeeper, { id: gatekeeperId }).set({
+      redemptionCount: existingGatekeeper.redemptionCount + 1,
+      lastSeenAt: timestamp,
+      lastSeenTxHash: ev.transaction.hash,
+      totalGasUsed: existingGatekeeper.totalGasUsed + gas.gasUsed,
+      totalGasCost: existingGatekeeper.totalGasCost + gas.gasCost,
+    });
+  } else {
+    console.warn(`[TicketRedeemed] Gatekeeper not found: ${gatekeeperId}`);
+  }
 
-  // Create Event entity if not exists (EventCreated will update with eventId later)
   await context.db
-    .insert(event)
+    .insert(gatekeeperWallet)
     .values({
-      id: eventAddress,
-      eventId: 0n, // Placeholder - updated by EventCreated
-      name,
-      symbol,
-      baseURI: "",
-      creatorId: owner,
-      accessPassNFT,
-      royaltyBps: 0,
-      totalTicketsSold: 0n,
-      totalTicketsRedeemed: 0n,
-      createdAt: ev.block.timestamp,
+      id: `${context.chain.id}-${gatekeeperAddress}`,
+      chainId: context.chain.id,
+      userId: gatekeeperAddress,
+      redemptionCount: 1,
+      totalGasUsed: gas.gasUsed,
+      totalGasCost: gas.gasCost,
     })
-    .onConflictDoNothing();
+    .onConflictDoUpdate((existing) => ({
+      redemptionCount: existing.redemptionCount + 1,
+      totalGasUsed: existing.totalGasUsed + gas.gasUsed,
+      totalGasCost: existing.totalGasCost + gas.gasCost,
+    }));
 
-  // Create Tier
-  const tierId = `${eventAddress}-${ev.args.tierId}`;
+  const minute = (timestamp / SECONDS_PER_MINUTE) * SECONDS_PER_MINUTE;
+  await context.db
+    .insert(gatekeeperMinuteStats)
+    .values({
+      id: `${gatekeeperId}-${minute}`,
+      chainId: context.chain.id,
+      eventId,
+      gatekeeperId,
+      minute,
+      redemptionCount: 1,
+      firstRedemptionAt: timestamp,
+      lastRedemptionAt: timestamp,
+    })
+    .onConflictDoUpdate((existing) => ({
+      redemptionCount: existing.redemptionCount + 1,
+      lastRedemptionAt: timestamp,
+    }));
+
+  const hour = (timestamp / SECONDS_PER_HOUR) * SECONDS_PER_HOUR;
   await context.db
+    .insert(gatekeeperHourStats)
+    .values({
+      id: `${gatekeeperId}-${hour}`,
+      chainId: context.chain.id,
+      eventId,
+      gatekeeperId,
+      hour,
+      redemptionCount: 1,
+      firstRedemptionAt: timestamp,
+      lastRedemptionAt: timestamp,
+    })
+    .onConflictDoUpdate((existing) => ({
+      redemptionCount: existing.redemptionCount + 1,
+      lastRedemptionAt: timestamp,
+    }));
+}
+
+type TransferEventName = "Event:TransferSingle" | "Event:TransferBatch";
+
+// Append one ticket movement; mints are always primary sales, while burns and
+// transfers are upgraded to redemption/marketplace by the correlating handler
+async function recordTicketTransfer(
+  context: Context<TransferEventName>,
+  ev: Event<TransferEventName>,
+  batchIndex: number,
+  tokenId: bigint,
+  value: bigint,
+) {
+  const { operator, from, to } = ev.args;
+  const eventId = `${context.chain.id}-${ev.log.address}`;
+
+  await context.db.insert(ticketTransfer).values({
+    id: `${context.chain.id}-${ev.transaction.hash}-${ev.log.logIndex}-${batchIndex}`,
+    chainId: context.chain.id,
+    eventId,
+    tierId: `${eventId}-${tokenId}`,
+    fromId: from,
+    toId: to,
+    operator,
+    value,
+    kind: from === zeroAddress ? "mint" : to === zeroAddress ? "burn" : "transfer",
+    blockNumber: ev.block.number,
+    timestamp: ev.block.timestamp,
+    txHash: ev.transaction.hash,
+    logIndex: ev.log.logIndex,
+  });
+}
+
+// TierCreated Handler - Tiers set up in initialize are logged before the
+// factory's EventCreated, so only the tier is written here; the event row is
+// created whole by EventCreated later in the same transaction
+ponder.on("Event:TierCreated", async ({ event: ev, context }) => {
+  const eventAddress = ev.log.address;
+  const eventId = `${context.chain.id}-${eventAddress}`;
+
+  // Create Tier
+  const tierId = `${eventId}-${ev.args.tierId}`;
+  const created = await context.db
     .insert(tier)
     .values({
       id: tierId,
-      eventId: eventAddress,
+      chainId: context.chain.id,
+      eventId,
       tierId: ev.args.tierId,
       tierName: ev.args.tierName,
       price: ev.args.price,
@@ -75,35 +196,44 @@ ponder.on("Event:TierCreated", async ({ event: ev, context }) => {
       ticketsRedeemed: 0n,
     })
     .onConflictDoNothing();
+
+  if (created) {
+    await recordTierRevision(context, ev, "created", created);
+  }
 });
 
 // TierUpdated Handler
 ponder.on("Event:TierUpdated", async ({ event: ev, context }) => {
   const eventAddress = ev.log.address;
-  const tierId = `${eventAddress}-${ev.args.tierId}`;
+  const eventId = `${context.chain.id}-${eventAddress}`;
+  const tierId = `${eventId}-${ev.args.tierId}`;
 
-  await context.db.update(tier, { id: tierId }).set({
+  const updated = await context.db.update(tier, { id: tierId }).set({
     price: ev.args.newPrice,
     maxSupply: ev.args.newMaxSupply,
   });
+  await recordTierRevision(context, ev, "updated", updated);
 });
 
 // TierActiveStatusChanged Handler
 ponder.on("Event:TierActiveStatusChanged", async ({ event: ev, context }) => {
   const eventAddress = ev.log.address;
-  const tierId = `${eventAddress}-${ev.args.tierId}`;
+  const eventId = `${context.chain.id}-${eventAddress}`;
+  const tierId = `${eventId}-${ev.args.tierId}`;
 
-  await context.db.update(tier, { id: tierId }).set({
+  const updated = await context.db.update(tier, { id: tierId }).set({
     active: ev.args.active,
   });
+  await recordTierRevision(context, ev, "activeChanged", updated);
 });
 
 // TicketsPurchased Handler
 ponder.on("Event:TicketsPurchased", async ({ event: ev, context }) => {
   const eventAddress = ev.log.address;
+  const eventId = `${context.chain.id}-${eventAddress}`;
   const { buyer, tierId: tierIdNum, quantity, totalPaid } = ev.args;
-  const tierId = `${eventAddress}-${tierIdNum}`;
-  const purchaseId = `${ev.transaction.hash}-${ev.log.logIndex}`;
+  const tierId = `${eventId}-${tierIdNum}`;
+  const purchaseId = `${context.chain.id}-${ev.transaction.hash}-${ev.log.logIndex}`;
 
   // Ensure user exists
   await context.db.insert(user).values({ id: buyer }).onConflictDoNothing();
@@ -111,13 +241,18 @@ ponder.on("Event:TicketsPurchased", async ({ event: ev, context }) => {
   // Create purchase record
   await context.db.insert(ticketPurchase).values({
     id: purchaseId,
-    eventId: eventAddress,
+    chainId: context.chain.id,
+    eventId,
     tierId,
     buyerId: buyer,
     quantity,
+    // buyTickets requires msg.value == price * quantity (quantity > 0)
+    unitPrice: totalPaid / quantity,
     totalPaid,
+    blockNumber: ev.block.number,
     timestamp: ev.block.timestamp,
     txHash: ev.transaction.hash,
+    logIndex: ev.log.logIndex,
   });
 
   // Increment tier ticketsSold
@@ -130,41 +265,89 @@ ponder.on("Event:TicketsPurchased", async ({ event: ev, context }) => {
     console.warn(`[TicketsPurchased] Tier not found: ${tierId}`);
   }
 
-  // Increment event totalTicketsSold
-  const existingEvent = await context.db.find(event, { id: eventAddress });
+  // Increment event totalTicketsSold and revenue
+  const existingEvent = await context.db.find(event, { id: eventId });
   if (existingEvent) {
-    await context.db.update(event, { id: eventAddress }).set({
+    await context.db.update(event, { id: eventId }).set({
       totalTicketsSold: existingEvent.totalTicketsSold + quantity,
+      primaryRevenue: existingEvent.primaryRevenue + totalPaid,
+      unwithdrawnBalance: existingEvent.unwithdrawnBalance + totalPaid,
     });
   } else {
-    console.warn(`[TicketsPurchased] Event not found: ${eventAddress}`);
+    console.warn(`[TicketsPurchased] Event not found: ${eventId}`);
   }
 });
 
-// TicketRedeemed Handler
-ponder.on("Event:TicketRedeemed", async ({ event: ev, context }) => {
+// TicketRedeemed Handler (EventRedemption carries the transaction receipt)
+ponder.on("EventRedemption:TicketRedeemed", async ({ event: ev, context }) => {
   const eventAddress = ev.log.address;
+  const eventId = `${context.chain.id}-${eventAddress}`;
   const { ticketHolder, tierId: tierIdNum, accessPassId } = ev.args;
-  const tierId = `${eventAddress}-${tierIdNum}`;
-  const redemptionId = `${ev.transaction.hash}-${ev.log.logIndex}`;
+  const tierId = `${eventId}-${tierIdNum}`;
+  const redemptionId = `${context.chain.id}-${ev.transaction.hash}-${ev.log.logIndex}`;
+  const { gasUsed, effectiveGasPrice } = ev.transactionReceipt;
+  const gasCost = gasUsed * effectiveGasPrice;
 
-  // Ensure user exists
+  // Ensure users exist
   await context.db
     .insert(user)
     .values({ id: ticketHolder })
     .onConflictDoNothing();
+  await context.db
+    .insert(user)
+    .values({ id: ev.transaction.from })
+    .onConflictDoNothing();
 
   // Create redemption record
   await context.db.insert(ticketRedemption).values({
     id: redemptionId,
-    eventId: eventAddress,
+    chainId: context.chain.id,
+    eventId,
     tierId,
     userId: ticketHolder,
+    gatekeeperId: ev.transaction.from,
     accessPassId,
+    blockNumber: ev.block.number,
     timestamp: ev.block.timestamp,
     txHash: ev.transaction.hash,
+    logIndex: ev.log.logIndex,
+    gasUsed,
+    effectiveGasPrice,
+    gasCost,
   });
 
+  await recordGatekeeperRedemption(context, ev, eventId, { gasUsed, gasCost });
+
+  // The burn logged just before this by redeemTicket
+  await reclassifyTicketTransfer(
+    context,
+    {
+      txHash: ev.transaction.hash,
+      beforeLogIndex: ev.log.logIndex,
+      tierId,
+      from: ticketHolder,
+      to: zeroAddress,
+      kind: "burn",
+    },
+    "redemption",
+  );
+
+  // redeemTicket consumes exactly one nonce per successful redemption
+  await context.db
+    .insert(redemptionNonce)
+    .values({
+      id: `${eventId}-${ticketHolder}`,
+      chainId: context.chain.id,
+      eventId,
+      userId: ticketHolder,
+      nonce: 1n,
+      updatedAt: ev.block.timestamp,
+    })
+    .onConflictDoUpdate((existing) => ({
+      nonce: existing.nonce + 1n,
+      updatedAt: ev.block.timestamp,
+    }));
+
   // Increment tier ticketsRedeemed
   const existingTier = await context.db.find(tier, { id: tierId });
   if (existingTier) {
@@ -176,13 +359,15 @@ ponder.on("Event:TicketRedeemed", async ({ event: ev, context }) => {
   }
 
   // Increment event totalTicketsRedeemed
-  const existingEvent = await context.db.find(event, { id: eventAddress });
+  const existingEvent = await context.db.find(event, { id: eventId });
   if (existingEvent) {
-    await context.db.update(event, { id: eventAddress }).set({
+    await context.db.update(event, { id: eventId }).set({
       totalTicketsRedeemed: existingEvent.totalTicketsRedeemed + 1n,
+      redemptionGasUsed: existingEvent.redemptionGasUsed + gasUsed,
+      redemptionGasCost: existingEvent.redemptionGasCost + gasCost,
     });
   } else {
-    console.warn(`[TicketRedeemed] Event not found: ${eventAddress}`);
+    console.warn(`[TicketRedeemed] Event not found: ${eventId}`);
   }
 });
 
@@ -190,7 +375,10 @@ ponder.on("Event:TicketRedeemed", async ({ event: ev, context }) => {
 ponder.on("Event:TransferSingle", async ({ event: ev, context }) => {
   const { from, to, id: tokenId, value } = ev.args;
   const eventAddress = ev.log.address;
-  const tierId = `${eventAddress}-${tokenId}`;
+  const eventId = `${context.chain.id}-${eventAddress}`;
+  const tierId = `${eventId}-${tokenId}`;
+
+  await recordTicketTransfer(context, ev, 0, tokenId, value);
 
   // Ensure users exist
   if (from !== zeroAddress) {
@@ -202,7 +390,7 @@ ponder.on("Event:TransferSingle", async ({ event: ev, context }) => {
 
   // Update sender balance (if not mint)
   if (from !== zeroAddress) {
-    const fromBalanceId = `${eventAddress}-${tokenId}-${from}`;
+    const fromBalanceId = `${eventId}-${tokenId}-${from}`;
     const existing = await context.db.find(ticketBalance, { id: fromBalanceId });
     if (existing) {
       const newBalance = existing.balance - value;
@@ -224,12 +412,13 @@ ponder.on("Event:TransferSingle", async ({ event: ev, context }) => {
 
   // Update receiver balance (if not burn)
   if (to !== zeroAddress) {
-    const toBalanceId = `${eventAddress}-${tokenId}-${to}`;
+    const toBalanceId = `${eventId}-${tokenId}-${to}`;
     await context.db
       .insert(ticketBalance)
       .values({
         id: toBalanceId,
-        eventId: eventAddress,
+        chainId: context.chain.id,
+        eventId,
         tierId,
         userId: to,
         balance: value,
@@ -238,12 +427,21 @@ ponder.on("Event:TransferSingle", async ({ event: ev, context }) => {
         balance: existing.balance + value,
       }));
   }
+
+  // Listings of either party may have become (un)fillable
+  if (from !== zeroAddress) {
+    await refreshSellerListings(context, logChange(ev), eventId, from, tierId);
+  }
+  if (to !== zeroAddress) {
+    await refreshSellerListings(context, logChange(ev), eventId, to, tierId);
+  }
 });
 
 // TransferBatch Handler (ERC-1155)
 ponder.on("Event:TransferBatch", async ({ event: ev, context }) => {
   const { from, to, ids, values } = ev.args;
   const eventAddress = ev.log.address;
+  const eventId = `${context.chain.id}-${eventAddress}`;
 
   // Ensure users exist
   if (from !== zeroAddress) {
@@ -257,11 +455,13 @@ ponder.on("Event:TransferBatch", async ({ event: ev, context }) => {
   for (let i = 0; i < ids.length; i++) {
     const tokenId = ids[i]!;
     const value = values[i]!;
-    const tierId = `${eventAddress}-${tokenId}`;
+    const tierId = `${eventId}-${tokenId}`;
+
+    await recordTicketTransfer(context, ev, i, tokenId, value);
 
     // Update sender balance (if not mint)
     if (from !== zeroAddress) {
-      const fromBalanceId = `${eventAddress}-${tokenId}-${from}`;
+      const fromBalanceId = `${eventId}-${tokenId}-${from}`;
       const existing = await context.db.find(ticketBalance, {
         id: fromBalanceId,
       });
@@ -285,12 +485,13 @@ ponder.on("Event:TransferBatch", async ({ event: ev, context }) => {
 
     // Update receiver balance (if not burn)
     if (to !== zeroAddress) {
-      const toBalanceId = `${eventAddress}-${tokenId}-${to}`;
+      const toBalanceId = `${eventId}-${tokenId}-${to}`;
       await context.db
         .insert(ticketBalance)
         .values({
           id: toBalanceId,
-          eventId: eventAddress,
+          chainId: context.chain.id,
+          eventId,
           tierId,
           userId: to,
           balance: value,
@@ -299,5 +500,265 @@ ponder.on("Event:TransferBatch", async ({ event: ev, context }) => {
           balance: existing.balance + value,
         }));
     }
+
+    // Listings of either party may have become (un)fillable
+    if (from !== zeroAddress) {
+      await refreshSellerListings(
+        context,
+        logChange(ev),
+        eventId,
+        from,
+        tierId,
+      );
+    }
+    if (to !== zeroAddress) {
+      await refreshSellerListings(context, logChange(ev), eventId, to, tierId);
+    }
+  }
+});
+
+// GatekeeperAdded Handler
+ponder.on("Event:GatekeeperAdded", async ({ event: ev, context }) => {
+  const eventAddress = ev.log.address;
+  const eventId = `${context.chain.id}-${eventAddress}`;
+  const { gatekeeper: gatekeeperAddress } = ev.args;
+
+  // Ensure user exists
+  await context.db
+    .insert(user)
+    .values({ id: gatekeeperAddress })
+    .onConflictDoNothing();
+
+  // Create gatekeeper record, or reactivate a previously removed one
+  await context.db
+    .insert(gatekeeper)
+    .values({
+      id: `${eventId}-${gatekeeperAddress}`,
+      chainId: context.chain.id,
+      eventId,
+      userId: gatekeeperAddress,
+      active: true,
+      addedAt: ev.block.timestamp,
+      addedTxHash: ev.transaction.hash,
+      redemptionCount: 0,
+      totalGasUsed: 0n,
+      totalGasCost: 0n,
+    })
+    .onConflictDoUpdate({
+      active: true,
+      addedAt: ev.block.timestamp,
+      addedTxHash: ev.transaction.hash,
+      removedAt: null,
+      removedTxHash: null,
+    });
+
+  // Included in the GatekeeperBalance poll from now on
+  await context.db
+    .insert(gatekeeperWallet)
+    .values({
+      id: `${context.chain.id}-${gatekeeperAddress}`,
+      chainId: context.chain.id,
+      userId: gatekeeperAddress,
+      redemptionCount: 0,
+      totalGasUsed: 0n,
+      totalGasCost: 0n,
+    })
+    .onConflictDoNothing();
+});
+
+// GatekeeperRemoved Handler
+ponder.on("Event:GatekeeperRemoved", async ({ event: ev, context }) => {
+  const eventAddress = ev.log.address;
+  const eventId = `${context.chain.id}-${eventAddress}`;
+  const { gatekeeper: gatekeeperAddress } = ev.args;
+  const gatekeeperId = `${eventId}-${gatekeeperAddress}`;
+
+  // removeGatekeeper does not check membership, so it may target an unknown address
+  const existingGatekeeper = await context.db.find(gatekeeper, {
+    id: gatekeeperId,
+  });
+  if (!existingGatekeeper) {
+    console.warn(`[GatekeeperRemoved] Gatekeeper not found: ${gatekeeperId}`);
+    return;
+  }
+
+  await context.db.update(gatekeeper, { id: gatekeeperId }).set({
+    active: false,
+    removedAt: ev.block.timestamp,
+    removedTxHash: ev.transaction.hash,
+  });
+});
+
+// OwnershipTransferred Handler (Ownable; also logged by initialize before EventCreated)
+ponder.on("Event:OwnershipTransferred", async ({ event: ev, context }) => {
+  const eventAddress = ev.log.address;
+  const eventId = `${context.chain.id}-${eventAddress}`;
+  const { previousOwner, newOwner } = ev.args;
+
+  // Ensure user exists (renounceOwnership transfers to the zero address)
+  if (newOwner !== zeroAddress) {
+    await context.db.insert(user).values({ id: newOwner }).onConflictDoNothing();
+  }
+
+  await context.db.insert(eventOwnershipTransfer).values({
+    id: `${context.chain.id}-${ev.transaction.hash}-${ev.log.logIndex}`,
+    chainId: context.chain.id,
+    eventId,
+    previousOwnerId: previousOwner,
+    newOwnerId: newOwner,
+    blockNumber: ev.block.number,
+    timestamp: ev.block.timestamp,
+    txHash: ev.transaction.hash,
+    logIndex: ev.log.logIndex,
+  });
+
+  // Missing during initialize; EventCreated then sets the initial owner itself
+  const existingEvent = await context.db.find(event, { id: eventId });
+  if (!existingEvent) {
+    return;
+  }
+
+  // Royalties keep going to the initial admin; there is no setter to follow the owner
+  await context.db.update(event, { id: eventId }).set({
+    ownerId: newOwner,
+    royaltyReceiverMismatch: newOwner !== existingEvent.royaltyReceiver,
+  });
+});
+
+// FundsWithdrawn Handler
+ponder.on("Event:FundsWithdrawn", async ({ event: ev, context }) => {
+  const eventAddress = ev.log.address;
+  const eventId = `${context.chain.id}-${eventAddress}`;
+  const { to, amount } = ev.args;
+
+  // Ensure user exists
+  await context.db.insert(user).values({ id: to }).onConflictDoNothing();
+
+  // Create withdrawal record
+  await context.db.insert(withdrawal).values({
+    id: `${context.chain.id}-${ev.transaction.hash}-${ev.log.logIndex}`,
+    chainId: context.chain.id,
+    eventId,
+    recipientId: to,
+    amount,
+    timestamp: ev.block.timestamp,
+    txHash: ev.transaction.hash,
+  });
+
+  // withdraw() always sends the full contract balance, so nothing is left afterwards
+  const existingEvent = await context.db.find(event, { id: eventId });
+  if (existingEvent) {
+    await context.db.update(event, { id: eventId }).set({
+      totalWithdrawn: existingEvent.totalWithdrawn + amount,
+      unwithdrawnBalance: 0n,
+    });
+  } else {
+    console.warn(`[FundsWithdrawn] Event not found: ${eventId}`);
+  }
+});
+
+// ApprovalForAll Handler (ERC-1155)
+ponder.on("Event:ApprovalForAll", async ({ event: ev, context }) => {
+  const eventAddress = ev.log.address;
+  const eventId = `${context.chain.id}-${eventAddress}`;
+  const { account, operator, approved } = ev.args;
+
+  // Ensure user exists
+  await context.db.insert(user).values({ id: account }).onConflictDoNothing();
+
+  await context.db
+    .insert(ticketApproval)
+    .values({
+      id: `${eventId}-${account}-${operator}`,
+      chainId: context.chain.id,
+      eventId,
+      userId: account,
+      operator,
+      approved,
+      updatedAt: ev.block.timestamp,
+    })
+    .onConflictDoUpdate({
+      approved,
+      updatedAt: ev.block.timestamp,
+    });
+
+  // Only marketplace approval affects listing fillability
+  if (operator === getMarketplaceAddress(context)) {
+    await refreshSellerListings(context, logChange(ev), eventId, account);
+  }
+});
+
+// GatekeeperBalance Block Handler - native balance of every active gatekeeper,
+// read in one Multicall3 batch per poll; history keeps only changes
+ponder.on("GatekeeperBalance:block", async ({ event: ev, context }) => {
+  const wallets = await context.db.sql
+    .selectDistinct({ userId: gatekeeper.userId })
+    .from(gatekeeper)
+    .where(
+      and(
+        eq(gatekeeper.chainId, context.chain.id),
+        eq(gatekeeper.active, true),
+      ),
+    );
+  if (wallets.length === 0) {
+    return;
+  }
+
+  const multicall3 = deploymentsByChain.get(context.chain.id)?.contracts
+    .multicall3;
+  if (!multicall3) {
+    throw new Error(`No Multicall3 registered for chain ${context.chain.id}`);
+  }
+  let balances: readonly bigint[];
+  try {
+    balances = await context.client.multicall({
+      allowFailure: false,
+      multicallAddress: multicall3,
+      contracts: wallets.map(({ userId }) => ({
+        address: multicall3,
+        abi: multicall3Abi,
+        functionName: "getEthBalance" as const,
+        args: [userId] as const,
+      })),
+    });
+  } catch (error) {
+    // A backfill configured from before Multicall3 was deployed
+    if (!isMulticallMissing(error)) {
+      throw error;
+    }
+    balances = await Promise.all(
+      wallets.map(({ userId }) =>
+        context.client.getBalance({ address: userId }),
+      ),
+    );
+  }
+
+  for (const [i, { userId }] of wallets.entries()) {
+    const walletId = `${context.chain.id}-${userId}`;
+    const balance = balances[i]!;
+
+    const existingWallet = await context.db.find(gatekeeperWallet, {
+      id: walletId,
+    });
+    if (!existingWallet) {
+      console.warn(`[GatekeeperBalance] Wallet not found: ${walletId}`);
+      continue;
+    }
+
+    if (existingWallet.balance !== balance) {
+      await context.db.insert(gatekeeperBalance).values({
+        id: `${walletId}-${ev.block.number}`,
+        chainId: context.chain.id,
+        walletId,
+        balance,
+        blockNumber: ev.block.number,
+        timestamp: ev.block.timestamp,
+      });
+    }
+    await context.db.update(gatekeeperWallet, { id: walletId }).set({
+      balance,
+      balanceBlock: ev.block.number,
+      balanceUpdatedAt: ev.block.timestamp,
+    });
   }
 });
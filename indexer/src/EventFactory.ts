@@ -1,6 +1,7 @@
 import { ponder } from "ponder:registry";
-import { event, user } from "ponder:schema";
-import { EventAbi } from "../abis/EventAbi";
+import { accessPassCollection, event, user } from "ponder:schema";
+import { getEventMetadata } from "./utils/eventMetadata";
+import { getLiveImplementation } from "./utils/factoryImplementation";
 
 ponder.on("EventFactory:EventCreated", async ({ event: ev, context }) => {
   const { eventAddress, creator, name, eventId, accessPassNFT } = ev.args;
@@ -8,51 +9,63 @@ ponder.on("EventFactory:EventCreated", async ({ event: ev, context }) => {
   // Ensure user exists
   await context.db.insert(user).values({ id: creator }).onConflictDoNothing();
 
-  // Read additional data from Event contract
-  const [symbol, baseURI, royaltyInfo] = await Promise.all([
-    context.client.readContract({
-      address: eventAddress,
-      abi: EventAbi,
-      functionName: "symbol",
-    }),
-    context.client.readContract({
-      address: eventAddress,
-      abi: EventAbi,
-      functionName: "uri",
-      args: [0n],
-    }),
-    context.client.readContract({
-      address: eventAddress,
-      abi: EventAbi,
-      functionName: "royaltyInfo",
-      args: [0n, 10000n],
-    }),
-  ]);
+  const { symbol, baseURI, royaltyBps } = await getEventMetadata(context, ev);
+
+  // createEvent clones whatever the factory holds at this point
+  const eventImplementation = await getLiveImplementation(
+    context,
+    ev.log.address,
+    "event",
+    ev.block.number,
+  );
+  const accessPassNFTImplementation = await getLiveImplementation(
+    context,
+    ev.log.address,
+    "accessPassNFT",
+    ev.block.number,
+  );
+
+  // Lets AccessPassNFT handlers find the event without reading eventContract
+  await context.db
+    .insert(accessPassCollection)
+    .values({
+      id: `${context.chain.id}-${accessPassNFT}`,
+      chainId: context.chain.id,
+      eventId: `${context.chain.id}-${eventAddress}`,
+    })
+    .onConflictDoNothing();
 
-  // Upsert Event (may already exist from TierCreated)
   await context.db
     .insert(event)
     .values({
-      id: eventAddress,
+      id: `${context.chain.id}-${eventAddress}`,
+      chainId: context.chain.id,
+      address: eventAddress,
       eventId,
       name,
       symbol,
       baseURI,
       creatorId: creator,
+      // initialize(…, admin = creator, …) sets both; its OwnershipTransferred
+      // is logged before this event row exists
+      ownerId: creator,
       accessPassNFT,
-      royaltyBps: Number(royaltyInfo[1]),
+      royaltyBps,
+      royaltyReceiver: creator,
+      royaltyReceiverMismatch: false,
       totalTicketsSold: 0n,
       totalTicketsRedeemed: 0n,
+      primaryRevenue: 0n,
+      totalWithdrawn: 0n,
+      unwithdrawnBalance: 0n,
+      redemptionGasUsed: 0n,
+      redemptionGasCost: 0n,
       createdAt: ev.block.timestamp,
-    })
-    .onConflictDoUpdate({
-      eventId,
-      name,
-      symbol,
-      baseURI,
-      creatorId: creator,
-      accessPassNFT,
-      royaltyBps: Number(royaltyInfo[1]),
-      createdAt: ev.block.timestamp,
+      createdBlock: ev.block.number,
+      deploymentTxHash: ev.transaction.hash,
+      eventImplementation: eventImplementation.implementation,
+      eventImplementationVersion: eventImplementation.version,
+      accessPassNFTImplementation: accessPassNFTImplementation.implementation,
+      accessPassNFTImplementationVersion: accessPassNFTImplementation.version,
     });
 });
@@ -1,5 +1,25 @@
-import { ponder } from "ponder:registry";
-import { listing, listingPurchase, user } from "ponder:schema";
+import { ponder, type Context, type Event } from "ponder:registry";
+import { and, eq, lte } from "ponder";
+import {
+  dailyRoyalty,
+  eventRoyalty,
+  listing,
+  listingPurchase,
+  marketplacePauseChange,
+  marketplaceState,
+  receiverRoyalty,
+  user,
+} from "ponder:schema";
+import {
+  blockChange,
+  deriveListingStatus,
+  getSellerState,
+  logChange,
+  refreshSellerListings,
+} from "./utils/listingStatus";
+import { reclassifyTicketTransfer } from "./utils/ticketTransfer";
+
+const SECONDS_PER_DAY = 86400n;
 
 // ListingCreated Handler
 ponder.on("Marketplace:ListingCreated", async ({ event: ev, context }) => {
@@ -14,24 +34,39 @@ ponder.on("Marketplace:ListingCreated", async ({ event: ev, context }) => {
   } = ev.args;
 
   // tokenId in Marketplace corresponds to tierId in Event contract (ERC-1155)
-  const tierId = `${eventContract}-${tokenId}`;
+  const eventId = `${context.chain.id}-${eventContract}`;
+  const tierId = `${eventId}-${tokenId}`;
 
   // Ensure user exists
   await context.db.insert(user).values({ id: seller }).onConflictDoNothing();
 
+  // Marketplace holds no escrow, so check what the seller can actually deliver
+  const { balance, approved } = await getSellerState(
+    context,
+    eventId,
+    tierId,
+    seller,
+  );
+
   // Create Listing
   await context.db.insert(listing).values({
-    id: listingId.toString(),
+    id: `${context.chain.id}-${listingId}`,
+    chainId: context.chain.id,
     listingId,
     sellerId: seller,
-    eventId: eventContract,
+    eventId,
     tierId,
     quantity,
     quantityRemaining: quantity,
     pricePerUnit,
     expirationTime,
     active: true,
+    expired: false,
+    ...deriveListingStatus(quantity, balance, approved),
     createdAt: ev.block.timestamp,
+    createdBlockNumber: ev.block.number,
+    createdLogIndex: ev.log.logIndex,
+    ...logChange(ev),
     txHash: ev.transaction.hash,
   });
 });
@@ -41,8 +76,8 @@ ponder.on("Marketplace:ListingPurchased", async ({ event: ev, context }) => {
   const { listingId, buyer, quantity, totalPrice, royaltyPaid, royaltyReceiver } =
     ev.args;
 
-  const purchaseId = `${ev.transaction.hash}-${ev.log.logIndex}`;
-  const listingIdStr = listingId.toString();
+  const purchaseId = `${context.chain.id}-${ev.transaction.hash}-${ev.log.logIndex}`;
+  const listingIdStr = `${context.chain.id}-${listingId}`;
 
   // Ensure user exists
   await context.db.insert(user).values({ id: buyer }).onConflictDoNothing();
@@ -50,14 +85,17 @@ ponder.on("Marketplace:ListingPurchased", async ({ event: ev, context }) => {
   // Create ListingPurchase record
   await context.db.insert(listingPurchase).values({
     id: purchaseId,
+    chainId: context.chain.id,
     listingId: listingIdStr,
     buyerId: buyer,
     quantity,
     totalPrice,
     royaltyPaid,
     royaltyReceiver,
+    blockNumber: ev.block.number,
     timestamp: ev.block.timestamp,
     txHash: ev.transaction.hash,
+    logIndex: ev.log.logIndex,
   });
 
   // Update Listing quantityRemaining and active status
@@ -70,9 +108,98 @@ ponder.on("Marketplace:ListingPurchased", async ({ event: ev, context }) => {
     await context.db.update(listing, { id: listingIdStr }).set({
       quantityRemaining: newQuantityRemaining > 0n ? newQuantityRemaining : 0n,
       active: newQuantityRemaining > 0n,
+      ...(newQuantityRemaining > 0n ? {} : { fillableQuantity: 0n }),
+      ...logChange(ev),
     });
+
+    // The safeTransferFrom logged just before this by buyListing
+    await reclassifyTicketTransfer(
+      context,
+      {
+        txHash: ev.transaction.hash,
+        beforeLogIndex: ev.log.logIndex,
+        tierId: existingListing.tierId,
+        from: existingListing.sellerId,
+        to: buyer,
+        kind: "transfer",
+      },
+      "marketplace",
+    );
+
+    // Seller balance changed in this transaction; recompute remaining listings
+    await refreshSellerListings(
+      context,
+      logChange(ev),
+      existingListing.eventId,
+      existingListing.sellerId,
+      existingListing.tierId,
+    );
   } else {
     console.warn(`[ListingPurchased] Listing not found: ${listingIdStr}`);
+    return;
+  }
+
+  // Aggregate royalty earnings per event and per day
+  const eventId = existingListing.eventId;
+  const day = (ev.block.timestamp / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+
+  await context.db
+    .insert(eventRoyalty)
+    .values({
+      id: eventId,
+      chainId: context.chain.id,
+      eventId,
+      totalRoyalties: royaltyPaid,
+      totalVolume: totalPrice,
+      purchaseCount: 1,
+      lastPurchaseAt: ev.block.timestamp,
+    })
+    .onConflictDoUpdate((existing) => ({
+      totalRoyalties: existing.totalRoyalties + royaltyPaid,
+      totalVolume: existing.totalVolume + totalPrice,
+      purchaseCount: existing.purchaseCount + 1,
+      lastPurchaseAt: ev.block.timestamp,
+    }));
+
+  await context.db
+    .insert(dailyRoyalty)
+    .values({
+      id: `${eventId}-${day}`,
+      chainId: context.chain.id,
+      eventId,
+      day,
+      totalRoyalties: royaltyPaid,
+      totalVolume: totalPrice,
+      purchaseCount: 1,
+    })
+    .onConflictDoUpdate((existing) => ({
+      totalRoyalties: existing.totalRoyalties + royaltyPaid,
+      totalVolume: existing.totalVolume + totalPrice,
+      purchaseCount: existing.purchaseCount + 1,
+    }));
+
+  // Aggregate per receiver (no royalty is paid when the amount is zero)
+  if (royaltyPaid > 0n) {
+    await context.db
+      .insert(user)
+      .values({ id: royaltyReceiver })
+      .onConflictDoNothing();
+
+    await context.db
+      .insert(receiverRoyalty)
+      .values({
+        id: `${context.chain.id}-${royaltyReceiver}`,
+        chainId: context.chain.id,
+        userId: royaltyReceiver,
+        totalRoyalties: royaltyPaid,
+        purchaseCount: 1,
+        lastPurchaseAt: ev.block.timestamp,
+      })
+      .onConflictDoUpdate((existing) => ({
+        totalRoyalties: existing.totalRoyalties + royaltyPaid,
+        purchaseCount: existing.purchaseCount + 1,
+        lastPurchaseAt: ev.block.timestamp,
+      }));
   }
 });
 
@@ -80,8 +207,10 @@ ponder.on("Marketplace:ListingPurchased", async ({ event: ev, context }) => {
 ponder.on("Marketplace:ListingCancelled", async ({ event: ev, context }) => {
   const { listingId } = ev.args;
 
-  await context.db.update(listing, { id: listingId.toString() }).set({
+  await context.db.update(listing, { id: `${context.chain.id}-${listingId}` }).set({
     active: false,
+    fillableQuantity: 0n,
+    ...logChange(ev),
   });
 });
 
@@ -89,7 +218,79 @@ ponder.on("Marketplace:ListingCancelled", async ({ event: ev, context }) => {
 ponder.on("Marketplace:ListingPriceUpdated", async ({ event: ev, context }) => {
   const { listingId, newPrice } = ev.args;
 
-  await context.db.update(listing, { id: listingId.toString() }).set({
+  await context.db.update(listing, { id: `${context.chain.id}-${listingId}` }).set({
     pricePerUnit: newPrice,
+    ...logChange(ev),
+  });
+});
+
+// Paused / Unpaused Handlers (OpenZeppelin Pausable)
+ponder.on("Marketplace:Paused", async ({ event: ev, context }) => {
+  await setPaused(context, ev, true);
+});
+
+ponder.on("Marketplace:Unpaused", async ({ event: ev, context }) => {
+  await setPaused(context, ev, false);
+});
+
+async function setPaused(
+  context: Context<"Marketplace:Paused" | "Marketplace:Unpaused">,
+  ev: Event<"Marketplace:Paused" | "Marketplace:Unpaused">,
+  paused: boolean,
+) {
+  const marketplace = ev.log.address;
+  const marketplaceId = `${context.chain.id}-${marketplace}`;
+  const { account } = ev.args;
+
+  // Ensure user exists
+  await context.db.insert(user).values({ id: account }).onConflictDoNothing();
+
+  await context.db
+    .insert(marketplaceState)
+    .values({
+      id: marketplaceId,
+      chainId: context.chain.id,
+      address: marketplace,
+      paused,
+      updatedAt: ev.block.timestamp,
+      updatedTxHash: ev.transaction.hash,
+    })
+    .onConflictDoUpdate({
+      paused,
+      updatedAt: ev.block.timestamp,
+      updatedTxHash: ev.transaction.hash,
+    });
+
+  await context.db.insert(marketplacePauseChange).values({
+    id: `${context.chain.id}-${ev.transaction.hash}-${ev.log.logIndex}`,
+    chainId: context.chain.id,
+    marketplaceId,
+    paused,
+    accountId: account,
+    timestamp: ev.block.timestamp,
+    txHash: ev.transaction.hash,
   });
+}
+
+// ListingExpiry Block Handler - buyListing reverts once block.timestamp >= expirationTime
+ponder.on("ListingExpiry:block", async ({ event: ev, context }) => {
+  const expiredListings = await context.db.sql
+    .select({ id: listing.id, expirationTime: listing.expirationTime })
+    .from(listing)
+    .where(
+      and(
+        eq(listing.chainId, context.chain.id),
+        eq(listing.active, true),
+        eq(listing.expired, false),
+        lte(listing.expirationTime, ev.block.timestamp),
+      ),
+    );
+
+  for (const { id, expirationTime } of expiredListings) {
+    await context.db.update(listing, { id }).set({
+      expired: true,
+      expiredAt: expirationTime,
+      ...blockChange(ev),
+    });
+  }
 });
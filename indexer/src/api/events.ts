@@ -0,0 +1,479 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, desc, eq, gt, inArray } from "ponder";
+import {
+  afterCursor,
+  afterLogCursor,
+  chainScopedIds,
+  decodeCursor,
+  findEvent,
+  logCursor,
+  paginate,
+  parseAddress,
+  parseChainId,
+  parseLimit,
+  serialize,
+} from "./utils";
+
+const events = new Hono();
+
+// GET /events?chain=&owner= - newest first, optionally only events currently owned by owner
+events.get("/", async (c) => {
+  const chainId = parseChainId(c.req.query("chain"));
+  const ownerParam = c.req.query("owner");
+  const owner = ownerParam === undefined ? undefined : parseAddress(ownerParam);
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+  if (owner === null) {
+    return c.json({ error: "Invalid owner address" }, 400);
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  const cursor = decodeCursor(c.req.query("cursor"));
+
+  const rows = await db
+    .select()
+    .from(schema.event)
+    .where(
+      and(
+        chainId ? eq(schema.event.chainId, chainId) : undefined,
+        owner ? eq(schema.event.ownerId, owner) : undefined,
+        afterCursor(cursor, schema.event.createdAt, schema.event.id, "desc"),
+      ),
+    )
+    .orderBy(desc(schema.event.createdAt), desc(schema.event.id))
+    .limit(limit + 1);
+
+  return c.json(
+    serialize(
+      paginate(rows, limit, (row) => ({
+        key: row.createdAt.toString(),
+        id: row.id,
+      })),
+    ),
+  );
+});
+
+// GET /events/:address?chain=
+events.get("/:address", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const chainId = parseChainId(c.req.query("chain"));
+  if (!address) {
+    return c.json({ error: "Invalid event address" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const row = await findEvent(address, chainId);
+
+  if (!row) {
+    return c.json({ error: "Event not found" }, 404);
+  }
+
+  return c.json(serialize(row));
+});
+
+// GET /events/:address/tiers?chain= - ordered by tierId
+events.get("/:address/tiers", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const chainId = parseChainId(c.req.query("chain"));
+  if (!address) {
+    return c.json({ error: "Invalid event address" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  const cursor = decodeCursor(c.req.query("cursor"));
+
+  const rows = await db
+    .select()
+    .from(schema.tier)
+    .where(
+      and(
+        inArray(schema.tier.eventId, chainScopedIds(address, chainId)),
+        afterCursor(cursor, schema.tier.tierId, schema.tier.id, "asc"),
+      ),
+    )
+    .orderBy(asc(schema.tier.tierId), asc(schema.tier.id))
+    .limit(limit + 1);
+
+  return c.json(
+    serialize(
+      paginate(rows, limit, (row) => ({
+        key: row.tierId.toString(),
+        id: row.id,
+      })),
+    ),
+  );
+});
+
+// GET /events/:address/tiers/:tierId/revisions?chain= - configuration history, oldest first
+events.get("/:address/tiers/:tierId/revisions", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const tierParam = c.req.param("tierId");
+  const chainId = parseChainId(c.req.query("chain"));
+  if (!address || !/^\d+$/.test(tierParam)) {
+    return c.json({ error: "Invalid event address or tier id" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  const cursor = decodeCursor(c.req.query("cursor"));
+
+  const rows = await db
+    .select()
+    .from(schema.tierRevision)
+    .where(
+      and(
+        inArray(
+          schema.tierRevision.tierId,
+          chainScopedIds(`${address}-${tierParam}`, chainId),
+        ),
+        afterLogCursor(
+          cursor,
+          schema.tierRevision.chainId,
+          schema.tierRevision.blockNumber,
+          schema.tierRevision.logIndex,
+          "asc",
+        ),
+      ),
+    )
+    .orderBy(
+      asc(schema.tierRevision.chainId),
+      asc(schema.tierRevision.blockNumber),
+      asc(schema.tierRevision.logIndex),
+    )
+    .limit(limit + 1);
+
+  return c.json(
+    serialize(
+      paginate(rows, limit, (row) =>
+        logCursor(row.chainId, row.blockNumber, row.logIndex),
+      ),
+    ),
+  );
+});
+
+// GET /events/:address/ownership?chain= - OwnershipTransferred history, oldest first
+events.get("/:address/ownership", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const chainId = parseChainId(c.req.query("chain"));
+  if (!address) {
+    return c.json({ error: "Invalid event address" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  const cursor = decodeCursor(c.req.query("cursor"));
+
+  const rows = await db
+    .select()
+    .from(schema.eventOwnershipTransfer)
+    .where(
+      and(
+        inArray(
+          schema.eventOwnershipTransfer.eventId,
+          chainScopedIds(address, chainId),
+        ),
+        afterLogCursor(
+          cursor,
+          schema.eventOwnershipTransfer.chainId,
+          schema.eventOwnershipTransfer.blockNumber,
+          schema.eventOwnershipTransfer.logIndex,
+          "asc",
+        ),
+      ),
+    )
+    .orderBy(
+      asc(schema.eventOwnershipTransfer.chainId),
+      asc(schema.eventOwnershipTransfer.blockNumber),
+      asc(schema.eventOwnershipTransfer.logIndex),
+    )
+    .limit(limit + 1);
+
+  return c.json(
+    serialize(
+      paginate(rows, limit, (row) =>
+        logCursor(row.chainId, row.blockNumber, row.logIndex),
+      ),
+    ),
+  );
+});
+
+// GET /events/:address/gatekeepers?chain= - redemption count and last seen per device, oldest grant first
+events.get("/:address/gatekeepers", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const chainId = parseChainId(c.req.query("chain"));
+  if (!address) {
+    return c.json({ error: "Invalid event address" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  const cursor = decodeCursor(c.req.query("cursor"));
+
+  const rows = await db
+    .select()
+    .from(schema.gatekeeper)
+    .where(
+      and(
+        inArray(schema.gatekeeper.eventId, chainScopedIds(address, chainId)),
+        afterCursor(
+          cursor,
+          schema.gatekeeper.addedAt,
+          schema.gatekeeper.id,
+          "asc",
+        ),
+      ),
+    )
+    .orderBy(asc(schema.gatekeeper.addedAt), asc(schema.gatekeeper.id))
+    .limit(limit + 1);
+
+  return c.json(
+    serialize(
+      paginate(rows, limit, (row) => ({
+        key: row.addedAt.toString(),
+        id: row.id,
+      })),
+    ),
+  );
+});
+
+// GET /events/:address/gatekeepers/throughput?chain=&resolution=minute|hour - redemptions per gatekeeper per bucket, newest first
+events.get("/:address/gatekeepers/throughput", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const chainId = parseChainId(c.req.query("chain"));
+  const resolution = c.req.query("resolution") ?? "minute";
+  if (!address) {
+    return c.json({ error: "Invalid event address" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+  if (resolution !== "minute" && resolution !== "hour") {
+    return c.json({ error: "resolution must be minute or hour" }, 400);
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  const cursor = decodeCursor(c.req.query("cursor"));
+  const eventIds = chainScopedIds(address, chainId);
+
+  const rows =
+    resolution === "minute"
+      ? await db
+          .select({
+            id: schema.gatekeeperMinuteStats.id,
+            chainId: schema.gatekeeperMinuteStats.chainId,
+            eventId: schema.gatekeeperMinuteStats.eventId,
+            gatekeeperId: schema.gatekeeperMinuteStats.gatekeeperId,
+            bucket: schema.gatekeeperMinuteStats.minute,
+            redemptionCount: schema.gatekeeperMinuteStats.redemptionCount,
+            firstRedemptionAt: schema.gatekeeperMinuteStats.firstRedemptionAt,
+            lastRedemptionAt: schema.gatekeeperMinuteStats.lastRedemptionAt,
+          })
+          .from(schema.gatekeeperMinuteStats)
+          .where(
+            and(
+              inArray(schema.gatekeeperMinuteStats.eventId, eventIds),
+              afterCursor(
+                cursor,
+                schema.gatekeeperMinuteStats.minute,
+                schema.gatekeeperMinuteStats.id,
+                "desc",
+              ),
+            ),
+          )
+          .orderBy(
+            desc(schema.gatekeeperMinuteStats.minute),
+            desc(schema.gatekeeperMinuteStats.id),
+          )
+          .limit(limit + 1)
+      : await db
+          .select({
+            id: schema.gatekeeperHourStats.id,
+            chainId: schema.gatekeeperHourStats.chainId,
+            eventId: schema.gatekeeperHourStats.eventId,
+            gatekeeperId: schema.gatekeeperHourStats.gatekeeperId,
+            bucket: schema.gatekeeperHourStats.hour,
+            redemptionCount: schema.gatekeeperHourStats.redemptionCount,
+            firstRedemptionAt: schema.gatekeeperHourStats.firstRedemptionAt,
+            lastRedemptionAt: schema.gatekeeperHourStats.lastRedemptionAt,
+          })
+          .from(schema.gatekeeperHourStats)
+          .where(
+            and(
+              inArray(schema.gatekeeperHourStats.eventId, eventIds),
+              afterCursor(
+                cursor,
+                schema.gatekeeperHourStats.hour,
+                schema.gatekeeperHourStats.id,
+                "desc",
+              ),
+            ),
+          )
+          .orderBy(
+            desc(schema.gatekeeperHourStats.hour),
+            desc(schema.gatekeeperHourStats.id),
+          )
+          .limit(limit + 1);
+
+  return c.json(
+    serialize({
+      resolution,
+      ...paginate(rows, limit, (row) => ({
+        key: row.bucket.toString(),
+        id: row.id,
+      })),
+    }),
+  );
+});
+
+// Redemptions averaged for the per-redemption cost, so it tracks current gas prices
+const RUNWAY_SAMPLE_SIZE = 20;
+
+// GET /events/:address/gatekeepers/runway?chain= - redemptions each active gatekeeper can still pay gas for
+// Balances come from the GatekeeperBalance poll, which by default starts at the
+// live head (see ponder.config.ts), so they are null while the indexer backfills
+events.get("/:address/gatekeepers/runway", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const chainId = parseChainId(c.req.query("chain"));
+  if (!address) {
+    return c.json({ error: "Invalid event address" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const event = await findEvent(address, chainId);
+  if (!event) {
+    return c.json({ error: "Event not found" }, 404);
+  }
+
+  const gatekeepers = await db
+    .select()
+    .from(schema.gatekeeper)
+    .where(
+      and(
+        eq(schema.gatekeeper.eventId, event.id),
+        eq(schema.gatekeeper.active, true),
+      ),
+    )
+    .orderBy(asc(schema.gatekeeper.addedAt), asc(schema.gatekeeper.id));
+
+  const items = await Promise.all(
+    gatekeepers.map(async (row) => {
+      const [wallet] = await db
+        .select()
+        .from(schema.gatekeeperWallet)
+        .where(
+          eq(schema.gatekeeperWallet.id, `${event.chainId}-${row.userId}`),
+        );
+      const redemptionsBy = and(
+        eq(schema.ticketRedemption.chainId, event.chainId),
+        eq(schema.ticketRedemption.gatekeeperId, row.userId),
+      );
+
+      // Latest polled balance minus gas paid in redemptions indexed after the poll
+      const spentSincePoll =
+        wallet?.balance != null && wallet.balanceBlock != null
+          ? (
+              await db
+                .select({ gasCost: schema.ticketRedemption.gasCost })
+                .from(schema.ticketRedemption)
+                .where(
+                  and(
+                    redemptionsBy,
+                    gt(
+                      schema.ticketRedemption.blockNumber,
+                      wallet.balanceBlock,
+                    ),
+                  ),
+                )
+            ).reduce((total, { gasCost }) => total + gasCost, 0n)
+          : 0n;
+      const balance =
+        wallet?.balance != null
+          ? wallet.balance > spentSincePoll
+            ? wallet.balance - spentSincePoll
+            : 0n
+          : null;
+
+      const recent = await db
+        .select({ gasCost: schema.ticketRedemption.gasCost })
+        .from(schema.ticketRedemption)
+        .where(redemptionsBy)
+        .orderBy(desc(schema.ticketRedemption.blockNumber))
+        .limit(RUNWAY_SAMPLE_SIZE);
+      const averageGasCost =
+        recent.length > 0
+          ? recent.reduce((total, { gasCost }) => total + gasCost, 0n) /
+            BigInt(recent.length)
+          : null;
+
+      return {
+        gatekeeper: row.userId,
+        balance, // null until the first GatekeeperBalance poll
+        balanceBlock: wallet?.balanceBlock ?? null,
+        spentSincePoll,
+        averageGasCost, // null until this wallet has redeemed on this chain
+        estimatedRedemptionsRemaining:
+          balance !== null && averageGasCost ? balance / averageGasCost : null,
+      };
+    }),
+  );
+
+  return c.json(
+    serialize({ chainId: event.chainId, eventId: event.id, items }),
+  );
+});
+
+// GET /events/:address/passes/:tokenId?chain= - lock status and transfer history, oldest first
+events.get("/:address/passes/:tokenId", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const tokenParam = c.req.param("tokenId");
+  const chainId = parseChainId(c.req.query("chain"));
+  if (!address || !/^\d+$/.test(tokenParam)) {
+    return c.json({ error: "Invalid event address or token id" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const event = await findEvent(address, chainId);
+  if (!event) {
+    return c.json({ error: "Event not found" }, 404);
+  }
+
+  const pass = await db.query.accessPass.findFirst({
+    where: eq(
+      schema.accessPass.id,
+      `${event.chainId}-${event.accessPassNFT}-${tokenParam}`,
+    ),
+    with: {
+      transfers: {
+        orderBy: [
+          asc(schema.accessPassTransfer.blockNumber),
+          asc(schema.accessPassTransfer.id),
+        ],
+      },
+    },
+  });
+  if (!pass) {
+    return c.json({ error: "Access pass not found" }, 404);
+  }
+
+  return c.json(serialize(pass));
+});
+
+export default events;
@@ -1,7 +1,14 @@
 import { db } from "ponder:api";
 import schema from "ponder:schema";
 import { Hono } from "hono";
+import { createMiddleware } from "hono/factory";
 import { client, graphql } from "ponder";
+import events from "./events";
+import live from "./live";
+import marketplace from "./marketplace";
+import redemption from "./redemption";
+import users from "./users";
+import { InvalidCursorError } from "./utils";
 
 const app = new Hono();
 
@@ -10,4 +17,34 @@ app.use("/sql/*", client({ db, schema }));
 app.use("/", graphql({ db, schema }));
 app.use("/graphql", graphql({ db, schema }));
 
+// ==================== REST ====================
+
+// Short shared cache window; data changes at most once per indexed block.
+// Routes that set their own Cache-Control keep it
+const cacheControl = createMiddleware(async (c, next) => {
+  await next();
+  if (c.res.status === 200 && !c.res.headers.has("Cache-Control")) {
+    c.header("Cache-Control", "public, max-age=5, stale-while-revalidate=30");
+  }
+});
+
+app.use("/events/*", cacheControl);
+app.use("/users/*", cacheControl);
+app.use("/listings/*", cacheControl);
+app.use("/marketplace/*", cacheControl);
+
+app.route("/events", events);
+app.route("/users", users);
+app.route("/", marketplace);
+app.route("/redemption", redemption);
+app.route("/live", live);
+
+app.onError((err, c) => {
+  if (err instanceof InvalidCursorError) {
+    return c.json({ error: err.message }, 400);
+  }
+  console.error(err);
+  return c.json({ error: "Internal server error" }, 500);
+});
+
 export default app;
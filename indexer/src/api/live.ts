@@ -0,0 +1,549 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { and, asc, desc, eq, gt, or, type PgColumn } from "ponder";
+import {
+  INDEXED_CHAIN_IDS,
+  parseAddress,
+  parseChainId,
+  serialize,
+} from "./utils";
+
+const live = new Hono();
+
+const POLL_INTERVAL_MS = 2_000;
+const BATCH_LIMIT = 100;
+
+type Filters = {
+  eventAddress: `0x${string}` | null;
+  userAddress: `0x${string}` | null;
+};
+
+// Order of rows within one chain. Log rows are unique per (blockNumber,
+// logIndex); listing changes also break ties on listingId
+type Position = { blockNumber: bigint; logIndex: number; tiebreak: bigint };
+
+type Entry = {
+  position: Position;
+  // What subscriber filters match against
+  eventId: string;
+  userIds: string[];
+  row: object;
+};
+
+type Feed = {
+  // Latest position already indexed on the chain (null before the first row)
+  head: (chainId: number) => Promise<Position | null>;
+  // Rows on the chain after the position, in order
+  next: (after: Position | null, chainId: number) => Promise<Entry[]>;
+};
+
+function comparePositions(a: Position | null, b: Position | null): number {
+  if (!a || !b) {
+    return a ? 1 : b ? -1 : 0;
+  }
+  if (a.blockNumber !== b.blockNumber) {
+    return a.blockNumber < b.blockNumber ? -1 : 1;
+  }
+  if (a.logIndex !== b.logIndex) {
+    return a.logIndex < b.logIndex ? -1 : 1;
+  }
+  return a.tiebreak === b.tiebreak ? 0 : a.tiebreak < b.tiebreak ? -1 : 1;
+}
+
+function afterPosition(
+  position: Position | null,
+  blockColumn: PgColumn,
+  logIndexColumn: PgColumn,
+  tiebreakColumn?: PgColumn,
+) {
+  if (!position) {
+    return undefined;
+  }
+  const { blockNumber, logIndex, tiebreak } = position;
+  return or(
+    gt(blockColumn, blockNumber),
+    and(
+      eq(blockColumn, blockNumber),
+      tiebreakColumn
+        ? or(
+            gt(logIndexColumn, logIndex),
+            and(eq(logIndexColumn, logIndex), gt(tiebreakColumn, tiebreak)),
+          )
+        : gt(logIndexColumn, logIndex),
+    ),
+  );
+}
+
+function logPosition(row: { blockNumber: bigint; logIndex: number }) {
+  return { blockNumber: row.blockNumber, logIndex: row.logIndex, tiebreak: 0n };
+}
+
+function listingPosition(row: {
+  updatedBlockNumber: bigint;
+  updatedLogIndex: number;
+  listingId: bigint;
+}) {
+  return {
+    blockNumber: row.updatedBlockNumber,
+    logIndex: row.updatedLogIndex,
+    tiebreak: row.listingId,
+  };
+}
+
+// Feeds keyed by the SSE event name they are pushed as
+const feeds = new Map<string, Feed>([
+  [
+    "ticketPurchase",
+    {
+      head: async (chainId) => {
+        const [row] = await db
+          .select({
+            blockNumber: schema.ticketPurchase.blockNumber,
+            logIndex: schema.ticketPurchase.logIndex,
+          })
+          .from(schema.ticketPurchase)
+          .where(eq(schema.ticketPurchase.chainId, chainId))
+          .orderBy(
+            desc(schema.ticketPurchase.blockNumber),
+            desc(schema.ticketPurchase.logIndex),
+          )
+          .limit(1);
+        return row ? logPosition(row) : null;
+      },
+      next: async (after, chainId) => {
+        const rows = await db
+          .select()
+          .from(schema.ticketPurchase)
+          .where(
+            and(
+              eq(schema.ticketPurchase.chainId, chainId),
+              afterPosition(
+                after,
+                schema.ticketPurchase.blockNumber,
+                schema.ticketPurchase.logIndex,
+              ),
+            ),
+          )
+          .orderBy(
+            asc(schema.ticketPurchase.blockNumber),
+            asc(schema.ticketPurchase.logIndex),
+          )
+          .limit(BATCH_LIMIT);
+        return rows.map((row) => ({
+          position: logPosition(row),
+          eventId: row.eventId,
+          userIds: [row.buyerId],
+          row,
+        }));
+      },
+    },
+  ],
+  [
+    "ticketRedemption",
+    {
+      head: async (chainId) => {
+        const [row] = await db
+          .select({
+            blockNumber: schema.ticketRedemption.blockNumber,
+            logIndex: schema.ticketRedemption.logIndex,
+          })
+          .from(schema.ticketRedemption)
+          .where(eq(schema.ticketRedemption.chainId, chainId))
+          .orderBy(
+            desc(schema.ticketRedemption.blockNumber),
+            desc(schema.ticketRedemption.logIndex),
+          )
+          .limit(1);
+        return row ? logPosition(row) : null;
+      },
+      next: async (after, chainId) => {
+        const rows = await db
+          .select()
+          .from(schema.ticketRedemption)
+          .where(
+            and(
+              eq(schema.ticketRedemption.chainId, chainId),
+              afterPosition(
+                after,
+                schema.ticketRedemption.blockNumber,
+                schema.ticketRedemption.logIndex,
+              ),
+            ),
+          )
+          .orderBy(
+            asc(schema.ticketRedemption.blockNumber),
+            asc(schema.ticketRedemption.logIndex),
+          )
+          .limit(BATCH_LIMIT);
+        return rows.map((row) => ({
+          position: logPosition(row),
+          eventId: row.eventId,
+          userIds: [row.userId],
+          row,
+        }));
+      },
+    },
+  ],
+  [
+    // New listings and every later change (purchase, cancel, price, expiry,
+    // fillability), as the listing's current row
+    "listing",
+    {
+      head: async (chainId) => {
+        const [row] = await db
+          .select({
+            updatedBlockNumber: schema.listing.updatedBlockNumber,
+            updatedLogIndex: schema.listing.updatedLogIndex,
+            listingId: schema.listing.listingId,
+          })
+          .from(schema.listing)
+          .where(eq(schema.listing.chainId, chainId))
+          .orderBy(
+            desc(schema.listing.updatedBlockNumber),
+            desc(schema.listing.updatedLogIndex),
+            desc(schema.listing.listingId),
+          )
+          .limit(1);
+        return row ? listingPosition(row) : null;
+      },
+      next: async (after, chainId) => {
+        const rows = await db
+          .select()
+          .from(schema.listing)
+          .where(
+            and(
+              eq(schema.listing.chainId, chainId),
+              afterPosition(
+                after,
+                schema.listing.updatedBlockNumber,
+                schema.listing.updatedLogIndex,
+                schema.listing.listingId,
+              ),
+            ),
+          )
+          .orderBy(
+            asc(schema.listing.updatedBlockNumber),
+            asc(schema.listing.updatedLogIndex),
+            asc(schema.listing.listingId),
+          )
+          .limit(BATCH_LIMIT);
+        return rows.map((row) => ({
+          position: listingPosition(row),
+          eventId: row.eventId,
+          userIds: [row.sellerId],
+          row,
+        }));
+      },
+    },
+  ],
+  [
+    "listingPurchase",
+    {
+      head: async (chainId) => {
+        const [row] = await db
+          .select({
+            blockNumber: schema.listingPurchase.blockNumber,
+            logIndex: schema.listingPurchase.logIndex,
+          })
+          .from(schema.listingPurchase)
+          .where(eq(schema.listingPurchase.chainId, chainId))
+          .orderBy(
+            desc(schema.listingPurchase.blockNumber),
+            desc(schema.listingPurchase.logIndex),
+          )
+          .limit(1);
+        return row ? logPosition(row) : null;
+      },
+      next: async (after, chainId) => {
+        const rows = await db
+          .select({
+            purchase: schema.listingPurchase,
+            eventId: schema.listing.eventId,
+            sellerId: schema.listing.sellerId,
+          })
+          .from(schema.listingPurchase)
+          .leftJoin(
+            schema.listing,
+            eq(schema.listing.id, schema.listingPurchase.listingId),
+          )
+          .where(
+            and(
+              eq(schema.listingPurchase.chainId, chainId),
+              afterPosition(
+                after,
+                schema.listingPurchase.blockNumber,
+                schema.listingPurchase.logIndex,
+              ),
+            ),
+          )
+          .orderBy(
+            asc(schema.listingPurchase.blockNumber),
+            asc(schema.listingPurchase.logIndex),
+          )
+          .limit(BATCH_LIMIT);
+        return rows.map(({ purchase, eventId, sellerId }) => ({
+          position: logPosition(purchase),
+          eventId: eventId ?? "",
+          // Either side of the trade
+          userIds: sellerId ? [purchase.buyerId, sellerId] : [purchase.buyerId],
+          row: purchase,
+        }));
+      },
+    },
+  ],
+]);
+
+// One stream per feed and chain: `${type}:${chainId}`
+function streamKey(type: string, chainId: number) {
+  return `${type}:${chainId}`;
+}
+
+// The SSE id carries the subscriber's position in every stream, so a
+// reconnect with Last-Event-ID resumes where the client left off
+function encodeEventId(positions: Map<string, Position | null>): string {
+  const encoded: Record<string, [string, number, string]> = {};
+  for (const [key, position] of positions) {
+    if (position) {
+      encoded[key] = [
+        position.blockNumber.toString(),
+        position.logIndex,
+        position.tiebreak.toString(),
+      ];
+    }
+  }
+  return Buffer.from(JSON.stringify(encoded)).toString("base64url");
+}
+
+function decodeEventId(value: string): Map<string, Position> | null {
+  try {
+    const decoded: unknown = JSON.parse(
+      Buffer.from(value, "base64url").toString(),
+    );
+    if (typeof decoded !== "object" || decoded === null) {
+      return null;
+    }
+    const positions = new Map<string, Position>();
+    for (const [key, value] of Object.entries(decoded)) {
+      if (
+        !Array.isArray(value) ||
+        value.length !== 3 ||
+        typeof value[0] !== "string" ||
+        !/^\d+$/.test(value[0]) ||
+        !Number.isSafeInteger(value[1]) ||
+        typeof value[2] !== "string" ||
+        !/^\d+$/.test(value[2])
+      ) {
+        return null;
+      }
+      positions.set(key, {
+        blockNumber: BigInt(value[0]),
+        logIndex: value[1],
+        tiebreak: BigInt(value[2]),
+      });
+    }
+    return positions;
+  } catch {
+    return null;
+  }
+}
+
+type Subscriber = {
+  streams: { type: string; chainId: number }[];
+  filters: Filters;
+  // Last position seen per stream, delivered or filtered out
+  positions: Map<string, Position | null>;
+  ready: boolean;
+  send: (type: string, id: string, row: object) => void;
+};
+
+function matches(entry: Entry, chainId: number, filters: Filters) {
+  const { eventAddress, userAddress } = filters;
+  if (
+    eventAddress &&
+    entry.eventId.toLowerCase() !== `${chainId}-${eventAddress}`
+  ) {
+    return false;
+  }
+  return (
+    !userAddress ||
+    entry.userIds.some((userId) => userId.toLowerCase() === userAddress)
+  );
+}
+
+function deliver(
+  subscriber: Subscriber,
+  type: string,
+  chainId: number,
+  entries: Entry[],
+) {
+  const key = streamKey(type, chainId);
+  for (const entry of entries) {
+    if (
+      comparePositions(entry.position, subscriber.positions.get(key) ?? null) <=
+      0
+    ) {
+      continue;
+    }
+    subscriber.positions.set(key, entry.position);
+    if (matches(entry, chainId, subscriber.filters)) {
+      subscriber.send(
+        type,
+        encodeEventId(subscriber.positions),
+        serialize(entry.row),
+      );
+    }
+  }
+}
+
+// One poller for every connection: each stream is read once per interval and
+// fanned out. Subscribers resumed from behind catch up with their own reads
+const subscribers = new Set<Subscriber>();
+// Position up to which each stream has been fanned out
+const heads = new Map<string, Position | null>();
+let poller: Promise<void> | null = null;
+
+async function startPolling() {
+  for (const [type, feed] of feeds) {
+    for (const chainId of INDEXED_CHAIN_IDS) {
+      heads.set(streamKey(type, chainId), await feed.head(chainId));
+    }
+  }
+  void pollLoop();
+}
+
+async function pollLoop() {
+  while (subscribers.size > 0) {
+    for (const [type, feed] of feeds) {
+      for (const chainId of INDEXED_CHAIN_IDS) {
+        try {
+          await pollStream(type, feed, chainId);
+        } catch (error) {
+          console.error(`[live] Polling ${type} on ${chainId} failed:`, error);
+        }
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  poller = null;
+}
+
+async function pollStream(type: string, feed: Feed, chainId: number) {
+  const key = streamKey(type, chainId);
+  const start = heads.get(key) ?? null;
+  const entries = await feed.next(start, chainId);
+
+  for (const subscriber of subscribers) {
+    if (
+      !subscriber.ready ||
+      !subscriber.streams.some(
+        (stream) => stream.type === type && stream.chainId === chainId,
+      )
+    ) {
+      continue;
+    }
+    if (comparePositions(subscriber.positions.get(key) ?? null, start) < 0) {
+      const missed = await feed.next(
+        subscriber.positions.get(key) ?? null,
+        chainId,
+      );
+      deliver(subscriber, type, chainId, missed);
+      if (comparePositions(subscriber.positions.get(key) ?? null, start) < 0) {
+        continue;
+      }
+    }
+    deliver(subscriber, type, chainId, entries);
+  }
+
+  const last = entries[entries.length - 1];
+  if (last) {
+    heads.set(key, last.position);
+  }
+}
+
+async function subscribe(
+  subscriber: Subscriber,
+  resumeFrom: Map<string, Position> | null,
+) {
+  subscribers.add(subscriber);
+  poller ??= startPolling().catch((error: unknown) => {
+    poller = null;
+    throw error;
+  });
+  await poller;
+  for (const { type, chainId } of subscriber.streams) {
+    const key = streamKey(type, chainId);
+    subscriber.positions.set(
+      key,
+      resumeFrom?.get(key) ?? heads.get(key) ?? null,
+    );
+  }
+  subscriber.ready = true;
+}
+
+// GET /live?chain=&event=&user=&types= - Server-sent events for newly indexed
+// activity; reconnects resume from Last-Event-ID
+live.get("/", async (c) => {
+  const eventParam = c.req.query("event");
+  const userParam = c.req.query("user");
+  const typesParam = c.req.query("types");
+  const chainId = parseChainId(c.req.query("chain"));
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const filters: Filters = {
+    eventAddress: eventParam ? parseAddress(eventParam) : null,
+    userAddress: userParam ? parseAddress(userParam) : null,
+  };
+  if (
+    (eventParam && !filters.eventAddress) ||
+    (userParam && !filters.userAddress)
+  ) {
+    return c.json({ error: "Invalid event or user address" }, 400);
+  }
+
+  const types = typesParam ? typesParam.split(",") : [...feeds.keys()];
+  const unknownType = types.find((type) => !feeds.has(type));
+  if (unknownType !== undefined) {
+    return c.json({ error: `Unknown feed type: ${unknownType}` }, 400);
+  }
+  const chainIds = chainId ? [chainId] : INDEXED_CHAIN_IDS;
+
+  const lastEventId = c.req.header("Last-Event-ID");
+  const resumeFrom = lastEventId ? decodeEventId(lastEventId) : null;
+  if (lastEventId && !resumeFrom) {
+    return c.json({ error: "Invalid Last-Event-ID" }, 400);
+  }
+
+  return streamSSE(c, async (stream) => {
+    // Writes are chained so a slow client never holds up the shared poller
+    let writes = Promise.resolve();
+    const subscriber: Subscriber = {
+      streams: types.flatMap((type) =>
+        chainIds.map((chain) => ({ type, chainId: chain })),
+      ),
+      filters,
+      positions: new Map(),
+      ready: false,
+      send: (type, id, row) => {
+        writes = writes
+          .then(() =>
+            stream.writeSSE({ event: type, id, data: JSON.stringify(row) }),
+          )
+          .catch(() => stream.abort());
+      },
+    };
+
+    const closed = new Promise<void>((resolve) => stream.onAbort(resolve));
+    try {
+      await subscribe(subscriber, resumeFrom);
+      await closed;
+    } finally {
+      subscribers.delete(subscriber);
+    }
+  });
+});
+
+export default live;
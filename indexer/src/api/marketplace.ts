@@ -0,0 +1,188 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, desc, eq, gt, inArray, notInArray } from "ponder";
+import {
+  afterCursor,
+  chainScopedIds,
+  decodeCursor,
+  INDEXED_CHAIN_IDS,
+  paginate,
+  parseAddress,
+  parseChainId,
+  parseLimit,
+  serialize,
+} from "./utils";
+
+const marketplace = new Hono();
+
+type Listing = typeof schema.listing.$inferSelect;
+
+// Paused flag per chain (no row until the first Paused/Unpaused event on that chain)
+async function getPausedByChain() {
+  const states = await db.select().from(schema.marketplaceState);
+  return new Map(states.map((state) => [state.chainId, state.paused]));
+}
+
+// buyListing is whenNotPaused and reverts for inactive, expired or unfillable listings.
+// The expired flag lags behind the ListingExpiry interval, so the clock is checked too
+function withPurchasability(row: Listing, marketplacePaused: boolean) {
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  return {
+    ...row,
+    marketplacePaused,
+    purchasable:
+      row.active &&
+      !row.expired &&
+      row.expirationTime > now &&
+      row.status === "fillable" &&
+      !marketplacePaused,
+  };
+}
+
+// GET /marketplace?chain= - pause state for each indexed chain
+marketplace.get("/marketplace", async (c) => {
+  const chainId = parseChainId(c.req.query("chain"));
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const states = await db.select().from(schema.marketplaceState);
+
+  return c.json(
+    serialize({
+      items: (chainId ? [chainId] : INDEXED_CHAIN_IDS).map((id) => {
+        const state = states.find((row) => row.chainId === id);
+        return {
+          chainId: id,
+          address: state?.address ?? null,
+          paused: state?.paused ?? false,
+          updatedAt: state?.updatedAt ?? null,
+          updatedTxHash: state?.updatedTxHash ?? null,
+        };
+      }),
+    }),
+  );
+});
+
+// GET /listings?chain=&event=&tier=&sort=price&includeUnpurchasable=true - open
+// listings; by default only those buyListing would currently fill
+marketplace.get("/listings", async (c) => {
+  const eventParam = c.req.query("event");
+  const tierParam = c.req.query("tier");
+  const sort = c.req.query("sort") ?? "recent";
+  const includeParam = c.req.query("includeUnpurchasable");
+  const chainId = parseChainId(c.req.query("chain"));
+
+  const eventAddress = eventParam ? parseAddress(eventParam) : null;
+  if (eventParam && !eventAddress) {
+    return c.json({ error: "Invalid event address" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+  if (tierParam && (!eventAddress || !/^\d+$/.test(tierParam))) {
+    return c.json({ error: "tier requires event and must be a tier id" }, 400);
+  }
+  if (sort !== "recent" && sort !== "price") {
+    return c.json({ error: "sort must be one of: recent, price" }, 400);
+  }
+  if (includeParam && includeParam !== "true" && includeParam !== "false") {
+    return c.json({ error: "includeUnpurchasable must be true or false" }, 400);
+  }
+  const includeUnpurchasable = includeParam === "true";
+
+  const limit = parseLimit(c.req.query("limit"));
+  const cursor = decodeCursor(c.req.query("cursor"));
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const pausedByChain = await getPausedByChain();
+  const pausedChainIds = [...pausedByChain]
+    .filter(([, paused]) => paused)
+    .map(([id]) => id);
+
+  const rows = await db
+    .select()
+    .from(schema.listing)
+    .where(
+      and(
+        eq(schema.listing.active, true),
+        eq(schema.listing.expired, false),
+        // The expiry block handler runs on an interval, so also check wall-clock time
+        gt(schema.listing.expirationTime, now),
+        // Unfillable listings and paused chains, unless asked for
+        includeUnpurchasable
+          ? undefined
+          : eq(schema.listing.status, "fillable"),
+        includeUnpurchasable || pausedChainIds.length === 0
+          ? undefined
+          : notInArray(schema.listing.chainId, pausedChainIds),
+        chainId ? eq(schema.listing.chainId, chainId) : undefined,
+        eventAddress
+          ? inArray(
+              schema.listing.eventId,
+              chainScopedIds(eventAddress, chainId),
+            )
+          : undefined,
+        tierParam
+          ? inArray(
+              schema.listing.tierId,
+              chainScopedIds(`${eventAddress}-${tierParam}`, chainId),
+            )
+          : undefined,
+        sort === "price"
+          ? afterCursor(
+              cursor,
+              schema.listing.pricePerUnit,
+              schema.listing.id,
+              "asc",
+            )
+          : afterCursor(
+              cursor,
+              schema.listing.createdAt,
+              schema.listing.id,
+              "desc",
+            ),
+      ),
+    )
+    .orderBy(
+      ...(sort === "price"
+        ? [asc(schema.listing.pricePerUnit), asc(schema.listing.id)]
+        : [desc(schema.listing.createdAt), desc(schema.listing.id)]),
+    )
+    .limit(limit + 1);
+
+  const page = paginate(rows, limit, (row) => ({
+    key: (sort === "price" ? row.pricePerUnit : row.createdAt).toString(),
+    id: row.id,
+  }));
+
+  return c.json(
+    serialize({
+      items: page.items.map((row) =>
+        withPurchasability(row, pausedByChain.get(row.chainId) ?? false),
+      ),
+      nextCursor: page.nextCursor,
+    }),
+  );
+});
+
+// GET /listings/:listingId - listingId is chain-scoped (chainId-listingId)
+marketplace.get("/listings/:listingId", async (c) => {
+  const [row] = await db
+    .select()
+    .from(schema.listing)
+    .where(eq(schema.listing.id, c.req.param("listingId")));
+
+  if (!row) {
+    return c.json({ error: "Listing not found" }, 404);
+  }
+
+  const [state] = await db
+    .select()
+    .from(schema.marketplaceState)
+    .where(eq(schema.marketplaceState.chainId, row.chainId));
+
+  return c.json(serialize(withPurchasability(row, state?.paused ?? false)));
+});
+
+export default marketplace;
@@ -0,0 +1,158 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import { eq } from "ponder";
+import { isHex, recoverTypedDataAddress } from "viem";
+import { REDEMPTION_DOMAIN, REDEMPTION_TYPES } from "../../../sdk/event";
+import { findEvent, parseAddress, parseChainId, serialize } from "./utils";
+
+const redemption = new Hono();
+
+// Reason codes match the SimplrErrors revert redeemTicket would hit, except
+// StaleNonce, which the contract reports as InvalidSignature
+type RejectionReason =
+  | "SignatureExpired"
+  | "InvalidSignature"
+  | "StaleNonce"
+  | "InsufficientTickets"
+  | "NotGatekeeper";
+
+// redeemTicket does not check the tier, so these never fail verification
+type RedemptionWarning = "TierDoesNotExist" | "TierNotActive";
+
+function parseUint(value: unknown): bigint | null {
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) {
+    return BigInt(value);
+  }
+  if (typeof value === "string" && /^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  return null;
+}
+
+// POST /redemption/verify - pre-check a QR payload before submitting redeemTicket
+redemption.post("/verify", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return c.json({ error: "Request body must be a JSON object" }, 400);
+  }
+
+  const eventAddress = parseAddress(body.eventAddress);
+  const ticketHolder = parseAddress(body.ticketHolder);
+  const gatekeeper =
+    body.gatekeeper === undefined ? undefined : parseAddress(body.gatekeeper);
+  const tierId = parseUint(body.tierId);
+  const nonce = parseUint(body.nonce);
+  const deadline = parseUint(body.deadline);
+  const signature = body.signature;
+  const chainId =
+    body.chainId === undefined ? undefined : parseChainId(String(body.chainId));
+
+  if (
+    !eventAddress ||
+    !ticketHolder ||
+    gatekeeper === null ||
+    tierId === null ||
+    nonce === null ||
+    deadline === null ||
+    chainId === null ||
+    !isHex(signature)
+  ) {
+    return c.json({ error: "Malformed redemption payload" }, 400);
+  }
+
+  // The signature domain is bound to the chain the event was deployed on
+  const event = await findEvent(eventAddress, chainId);
+  if (!event) {
+    return c.json({ error: "Event not found" }, 404);
+  }
+
+  const reject = (reason: RejectionReason, details: object = {}) =>
+    c.json(serialize({ valid: false, reason, ...details }));
+
+  // 1. Deadline (redeemTicket reverts when block.timestamp > deadline)
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (now > deadline) {
+    return reject("SignatureExpired", { deadline });
+  }
+
+  // 2. Signature must recover to the ticket holder
+  let signer: `0x${string}`;
+  try {
+    signer = await recoverTypedDataAddress({
+      domain: {
+        ...REDEMPTION_DOMAIN,
+        chainId: event.chainId,
+        verifyingContract: eventAddress,
+      },
+      types: REDEMPTION_TYPES,
+      primaryType: "RedeemTicket",
+      message: { ticketHolder, tierId, nonce, deadline },
+      signature,
+    });
+  } catch {
+    return reject("InvalidSignature");
+  }
+  if (signer.toLowerCase() !== ticketHolder) {
+    return reject("InvalidSignature", { signer });
+  }
+
+  // 3. Nonce must be the holder's next unused nonce (replayed or stale QR otherwise)
+  const [nonceRow] = await db
+    .select()
+    .from(schema.redemptionNonce)
+    .where(eq(schema.redemptionNonce.id, `${event.id}-${ticketHolder}`));
+  const expectedNonce = nonceRow?.nonce ?? 0n;
+  if (nonce !== expectedNonce) {
+    // redeemTicket signs over the current nonce, so on-chain this fails as InvalidSignature
+    return reject("StaleNonce", { nonce, expectedNonce });
+  }
+
+  // 4. Tier state is advisory: redeemTicket burns tickets of inactive tiers too
+  const tierKey = `${event.id}-${tierId}`;
+  const [tierRow] = await db
+    .select()
+    .from(schema.tier)
+    .where(eq(schema.tier.id, tierKey));
+  const warnings: RedemptionWarning[] = [];
+  if (!tierRow) {
+    warnings.push("TierDoesNotExist");
+  } else if (!tierRow.active) {
+    warnings.push("TierNotActive");
+  }
+
+  // 5. Holder still owns at least one ticket of the tier
+  const [balanceRow] = await db
+    .select()
+    .from(schema.ticketBalance)
+    .where(eq(schema.ticketBalance.id, `${tierKey}-${ticketHolder}`));
+  const ticketBalance = balanceRow?.balance ?? 0n;
+  if (ticketBalance < 1n) {
+    return reject("InsufficientTickets", { ticketBalance });
+  }
+
+  // 6. Submitting device is an active gatekeeper (optional)
+  if (gatekeeper) {
+    const [gatekeeperRow] = await db
+      .select()
+      .from(schema.gatekeeper)
+      .where(eq(schema.gatekeeper.id, `${event.id}-${gatekeeper}`));
+    if (!gatekeeperRow?.active) {
+      return reject("NotGatekeeper", { gatekeeper });
+    }
+  }
+
+  return c.json(
+    serialize({
+      valid: true,
+      reason: null,
+      chainId: event.chainId,
+      signer,
+      ticketBalance,
+      tier: tierRow ?? null,
+      warnings,
+    }),
+  );
+});
+
+export default redemption;
@@ -0,0 +1,114 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, eq, gt } from "ponder";
+import {
+  decodeCursor,
+  findEvent,
+  paginate,
+  parseAddress,
+  parseChainId,
+  parseLimit,
+  serialize,
+} from "./utils";
+
+const users = new Hono();
+
+// GET /users/:address/tickets?chain= - ERC-1155 ticket balances with tier and event details
+users.get("/:address/tickets", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const chainId = parseChainId(c.req.query("chain"));
+  if (!address) {
+    return c.json({ error: "Invalid user address" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  const cursor = decodeCursor(c.req.query("cursor"));
+
+  const rows = await db.query.ticketBalance.findMany({
+    where: and(
+      eq(schema.ticketBalance.userId, address),
+      chainId ? eq(schema.ticketBalance.chainId, chainId) : undefined,
+      cursor ? gt(schema.ticketBalance.id, cursor.id) : undefined,
+    ),
+    orderBy: asc(schema.ticketBalance.id),
+    limit: limit + 1,
+    with: { tier: true, event: true },
+  });
+
+  return c.json(
+    serialize(paginate(rows, limit, (row) => ({ key: row.id, id: row.id }))),
+  );
+});
+
+// GET /users/:address/passes?chain= - held (unburned) ERC-721 access passes with tier and event details
+users.get("/:address/passes", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const chainId = parseChainId(c.req.query("chain"));
+  if (!address) {
+    return c.json({ error: "Invalid user address" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const limit = parseLimit(c.req.query("limit"));
+  const cursor = decodeCursor(c.req.query("cursor"));
+
+  const rows = await db.query.accessPass.findMany({
+    where: and(
+      eq(schema.accessPass.ownerId, address),
+      eq(schema.accessPass.burned, false),
+      chainId ? eq(schema.accessPass.chainId, chainId) : undefined,
+      cursor ? gt(schema.accessPass.id, cursor.id) : undefined,
+    ),
+    orderBy: asc(schema.accessPass.id),
+    limit: limit + 1,
+    with: { tier: true, event: true },
+  });
+
+  return c.json(
+    serialize(paginate(rows, limit, (row) => ({ key: row.id, id: row.id }))),
+  );
+});
+
+// GET /users/:address/nonces/:event?chain= - next redemption nonce for building signed QR payloads
+users.get("/:address/nonces/:event", async (c) => {
+  const address = parseAddress(c.req.param("address"));
+  const eventAddress = parseAddress(c.req.param("event"));
+  const chainId = parseChainId(c.req.query("chain"));
+  if (!address || !eventAddress) {
+    return c.json({ error: "Invalid user or event address" }, 400);
+  }
+  if (chainId === null) {
+    return c.json({ error: "Unknown chain" }, 400);
+  }
+
+  const event = await findEvent(eventAddress, chainId);
+  if (!event) {
+    return c.json({ error: "Event not found" }, 404);
+  }
+
+  const [row] = await db
+    .select()
+    .from(schema.redemptionNonce)
+    .where(eq(schema.redemptionNonce.id, `${event.id}-${address}`));
+
+  // Apps sign QR payloads over this nonce, so a cached value would yield a stale QR
+  c.header("Cache-Control", "no-store");
+  // No row means the holder has never redeemed on this event
+  return c.json(
+    serialize({
+      chainId: event.chainId,
+      eventId: event.id,
+      userId: address,
+      nonce: row?.nonce ?? 0n,
+      updatedAt: row?.updatedAt ?? null,
+    }),
+  );
+});
+
+export default users;
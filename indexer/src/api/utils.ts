@@ -0,0 +1,204 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import {
+  and,
+  asc,
+  eq,
+  gt,
+  inArray,
+  lt,
+  or,
+  replaceBigInts,
+  type PgColumn,
+} from "ponder";
+import { isAddress } from "viem";
+import config from "../../ponder.config";
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+
+// Serialize bigints as decimal strings so JSON clients don't lose precision
+export function serialize<T>(value: T) {
+  return replaceBigInts(value, (v) => String(v));
+}
+
+// Parse an address path/query param into the lowercase form used as row ids
+export function parseAddress(value: string | undefined): `0x${string}` | null {
+  if (!value || !isAddress(value, { strict: false })) {
+    return null;
+  }
+  return value.toLowerCase() as `0x${string}`;
+}
+
+// Chain ids indexed by this instance (see ponder.config.ts)
+export const INDEXED_CHAIN_IDS: number[] = Object.values(config.chains).map(
+  (chain) => chain.id,
+);
+
+// Parse the optional ?chain= filter: undefined when absent, null when not an indexed chain
+export function parseChainId(
+  value: string | undefined,
+): number | null | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const chainId = Number(value);
+  return INDEXED_CHAIN_IDS.includes(chainId) ? chainId : null;
+}
+
+// Row ids are prefixed with the chain id; expand to every indexed chain unless one is given
+export function chainScopedIds(suffix: string, chainId?: number): string[] {
+  return (chainId ? [chainId] : INDEXED_CHAIN_IDS).map(
+    (id) => `${id}-${suffix}`,
+  );
+}
+
+// Find an indexed event by address, on the given chain or the first indexed chain it exists on
+export async function findEvent(address: `0x${string}`, chainId?: number) {
+  const [row] = await db
+    .select()
+    .from(schema.event)
+    .where(inArray(schema.event.id, chainScopedIds(address, chainId)))
+    .orderBy(asc(schema.event.chainId))
+    .limit(1);
+  return row ?? null;
+}
+
+export function parseLimit(value: string | undefined): number {
+  const limit = Number.parseInt(value ?? "", 10);
+  if (Number.isNaN(limit) || limit <= 0) {
+    return DEFAULT_PAGE_LIMIT;
+  }
+  return Math.min(limit, MAX_PAGE_LIMIT);
+}
+
+// Keyset cursor: the sort key and id of the last row on the previous page
+export type Cursor = { key: string; id: string };
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.key, cursor.id])).toString(
+    "base64url",
+  );
+}
+
+export function decodeCursor(value: string | undefined): Cursor | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === "string" &&
+      typeof decoded[1] === "string"
+    ) {
+      return { key: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Fall through to invalid cursor
+  }
+  throw new InvalidCursorError();
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Condition selecting rows strictly after the cursor in (sortColumn, idColumn) order
+export function afterCursor(
+  cursor: Cursor | null,
+  sortColumn: PgColumn,
+  idColumn: PgColumn,
+  direction: "asc" | "desc",
+  parseKey: (key: string) => unknown = BigInt,
+  parseId: (id: string) => unknown = String,
+) {
+  if (!cursor) {
+    return undefined;
+  }
+  const compare = direction === "asc" ? gt : lt;
+  let key: unknown;
+  let id: unknown;
+  try {
+    key = parseKey(cursor.key);
+    id = parseId(cursor.id);
+  } catch {
+    throw new InvalidCursorError();
+  }
+  return or(
+    compare(sortColumn, key),
+    and(eq(sortColumn, key), compare(idColumn, id)),
+  );
+}
+
+function parseLogIndex(id: string): number {
+  const logIndex = Number(id);
+  if (!/^\d+$/.test(id) || !Number.isSafeInteger(logIndex)) {
+    throw new InvalidCursorError();
+  }
+  return logIndex;
+}
+
+// Log cursor key: `${chainId}:${blockNumber}`. Block numbers of different
+// chains are not comparable, so pages that span chains go chain by chain
+function parseLogKey(key: string): { chainId: number; blockNumber: bigint } {
+  const match = /^(\d+):(\d+)$/.exec(key);
+  const chainId = Number(match?.[1]);
+  if (!match || !Number.isSafeInteger(chainId)) {
+    throw new InvalidCursorError();
+  }
+  return { chainId, blockNumber: BigInt(match[2]!) };
+}
+
+// Log order: (chainId, blockNumber, logIndex). Text ids sort by tx hash instead
+export function afterLogCursor(
+  cursor: Cursor | null,
+  chainColumn: PgColumn,
+  blockColumn: PgColumn,
+  logIndexColumn: PgColumn,
+  direction: "asc" | "desc",
+) {
+  if (!cursor) {
+    return undefined;
+  }
+  const { chainId, blockNumber } = parseLogKey(cursor.key);
+  const logIndex = parseLogIndex(cursor.id);
+  const compare = direction === "asc" ? gt : lt;
+  return or(
+    compare(chainColumn, chainId),
+    and(
+      eq(chainColumn, chainId),
+      or(
+        compare(blockColumn, blockNumber),
+        and(eq(blockColumn, blockNumber), compare(logIndexColumn, logIndex)),
+      ),
+    ),
+  );
+}
+
+export function logCursor(
+  chainId: number,
+  blockNumber: bigint,
+  logIndex: number,
+): Cursor {
+  return { key: `${chainId}:${blockNumber}`, id: logIndex.toString() };
+}
+
+// Rows are fetched with limit + 1 to detect whether another page exists
+export function paginate<T>(
+  rows: T[],
+  limit: number,
+  cursorOf: (row: T) => Cursor,
+): { items: T[]; nextCursor: string | null } {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor:
+      rows.length > limit && last ? encodeCursor(cursorOf(last)) : null,
+  };
+}
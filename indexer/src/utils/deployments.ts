@@ -0,0 +1,15 @@
+import {
+  type Deployment,
+  loadDeployment,
+  type NetworkName,
+} from "../../../sdk/deployments";
+import config from "../../ponder.config";
+
+// Registry entries of the indexed chains by chain id, resolved with the same
+// env overrides ponder.config.ts applies
+export const deploymentsByChain = new Map<number, Deployment>(
+  (Object.keys(config.chains) as NetworkName[]).map((network) => {
+    const deployment = loadDeployment(network, process.env);
+    return [deployment.chain.id, deployment];
+  }),
+);
@@ -0,0 +1,93 @@
+import type { Context, Event } from "ponder:registry";
+import { decodeFunctionData } from "viem";
+import { EventAbi } from "../../abis/EventAbi";
+import { EventFactoryAbi } from "../../abis/EventFactoryAbi";
+import { deploymentsByChain } from "./deployments";
+import { isMulticallMissing } from "./multicall";
+
+type EventMetadata = {
+  symbol: string;
+  baseURI: string | null; // unknown outside the createEvent calldata
+  royaltyBps: number;
+};
+
+// EventConfig from the createEvent calldata, when the factory was called directly
+function decodeCreateEventConfig(
+  ev: Event<"EventFactory:EventCreated">,
+): EventMetadata | null {
+  if (ev.transaction.to?.toLowerCase() !== ev.log.address.toLowerCase()) {
+    return null;
+  }
+  try {
+    const { functionName, args } = decodeFunctionData({
+      abi: EventFactoryAbi,
+      data: ev.transaction.input,
+    });
+    if (functionName !== "createEvent") {
+      return null;
+    }
+    const [config] = args;
+    return {
+      symbol: config.symbol,
+      baseURI: config.baseURI,
+      royaltyBps: Number(config.royaltyBps),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Symbol, base URI and royalty for a new event. Decoded from the transaction
+ * input when possible; otherwise (factory called through another contract)
+ * symbol and royalty are read in a single Multicall3 batch and the base URI
+ * is unknown: it only reaches the AccessPassNFT, which has no getter for it.
+ */
+export async function getEventMetadata(
+  context: Pick<Context, "chain" | "client">,
+  ev: Event<"EventFactory:EventCreated">,
+): Promise<EventMetadata> {
+  const fromCalldata = decodeCreateEventConfig(ev);
+  if (fromCalldata) {
+    return fromCalldata;
+  }
+
+  const { eventAddress } = ev.args;
+  const symbolCall = {
+    address: eventAddress,
+    abi: EventAbi,
+    functionName: "symbol",
+  } as const;
+  const royaltyCall = {
+    address: eventAddress,
+    abi: EventAbi,
+    functionName: "royaltyInfo",
+    args: [0n, 10000n],
+  } as const;
+
+  let symbol: string;
+  let royaltyInfo: readonly [`0x${string}`, bigint];
+  try {
+    [symbol, royaltyInfo] = await context.client.multicall({
+      allowFailure: false,
+      multicallAddress: deploymentsByChain.get(context.chain.id)?.contracts
+        .multicall3,
+      contracts: [symbolCall, royaltyCall],
+    });
+  } catch (error) {
+    // Multicall3 was deployed after the factories, so early blocks need plain reads
+    if (!isMulticallMissing(error)) {
+      throw error;
+    }
+    [symbol, royaltyInfo] = await Promise.all([
+      context.client.readContract(symbolCall),
+      context.client.readContract(royaltyCall),
+    ]);
+  }
+
+  return {
+    symbol,
+    baseURI: null,
+    royaltyBps: Number(royaltyInfo[1]),
+  };
+}
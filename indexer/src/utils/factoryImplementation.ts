@@ -0,0 +1,83 @@
+import type { Context } from "ponder:registry";
+import { factoryImplementation } from "ponder:schema";
+import { and, desc, eq } from "ponder";
+import { EventFactoryAbi } from "../../abis/EventFactoryAbi";
+
+type ImplementationKind = (typeof factoryImplementation.$inferSelect)["kind"];
+type FactoryImplementation = typeof factoryImplementation.$inferSelect;
+
+/**
+ * Both implementations the factory reports at `blockNumber`. Plain reads, not
+ * Multicall3: they can predate its deployment and happen once per factory.
+ */
+async function readFactoryImplementations(
+  context: Pick<Context, "client">,
+  factory: `0x${string}`,
+  blockNumber: bigint,
+): Promise<Record<ImplementationKind, `0x${string}`>> {
+  // Event clones come from implementation()
+  const [eventImplementation, accessPassNFTImplementation] = await Promise.all([
+    context.client.readContract({
+      address: factory,
+      abi: EventFactoryAbi,
+      functionName: "implementation",
+      blockNumber,
+    }),
+    context.client.readContract({
+      address: factory,
+      abi: EventFactoryAbi,
+      functionName: "accessPassNFTImplementation",
+      blockNumber,
+    }),
+  ]);
+  return {
+    event: eventImplementation.toLowerCase() as `0x${string}`,
+    accessPassNFT: accessPassNFTImplementation.toLowerCase() as `0x${string}`,
+  };
+}
+
+/**
+ * Implementation the factory clones for `kind`. Both are immutable and set in
+ * the constructor without a log, so the first time a factory is seen its
+ * getters are read at `blockNumber` and stored as version 1 of each kind.
+ */
+export async function getLiveImplementation(
+  context: Pick<Context, "db" | "chain" | "client">,
+  factory: `0x${string}`,
+  kind: ImplementationKind,
+  blockNumber: bigint,
+): Promise<FactoryImplementation> {
+  const [latest] = await context.db.sql
+    .select()
+    .from(factoryImplementation)
+    .where(
+      and(
+        eq(factoryImplementation.chainId, context.chain.id),
+        eq(factoryImplementation.factory, factory),
+        eq(factoryImplementation.kind, kind),
+      ),
+    )
+    .orderBy(desc(factoryImplementation.version))
+    .limit(1);
+  if (latest) {
+    return latest;
+  }
+
+  // Versions of both kinds are always seeded together
+  const implementations = await readFactoryImplementations(
+    context,
+    factory,
+    blockNumber,
+  );
+  const seeded = await context.db.insert(factoryImplementation).values(
+    (["event", "accessPassNFT"] as const).map((seedKind) => ({
+      id: `${context.chain.id}-${factory}-${seedKind}-1`,
+      chainId: context.chain.id,
+      factory,
+      kind: seedKind,
+      implementation: implementations[seedKind],
+      version: 1,
+    })),
+  );
+  return seeded.find((row) => row.kind === kind)!;
+}
@@ -0,0 +1,124 @@
+import type { Context } from "ponder:registry";
+import { listing, ticketApproval, ticketBalance } from "ponder:schema";
+import { and, eq } from "ponder";
+
+type ListingContext = Pick<Context, "db" | "contracts">;
+
+type ListingStatus = (typeof listing.$inferSelect)["status"];
+
+// Position of a listing's latest change, which orders the live feed's listing
+// updates. Block handlers run after every log of their block
+export const BLOCK_HANDLER_LOG_INDEX = 2 ** 31 - 1;
+
+export type ListingChange = {
+  updatedBlockNumber: bigint;
+  updatedLogIndex: number;
+};
+
+export function logChange(ev: {
+  block: { number: bigint };
+  log: { logIndex: number };
+}): ListingChange {
+  return {
+    updatedBlockNumber: ev.block.number,
+    updatedLogIndex: ev.log.logIndex,
+  };
+}
+
+export function blockChange(ev: { block: { number: bigint } }): ListingChange {
+  return {
+    updatedBlockNumber: ev.block.number,
+    updatedLogIndex: BLOCK_HANDLER_LOG_INDEX,
+  };
+}
+
+// Derive how much of a listing buyListing can actually transfer from the seller
+export function deriveListingStatus(
+  quantityRemaining: bigint,
+  sellerBalance: bigint,
+  approved: boolean,
+): { status: ListingStatus; fillableQuantity: bigint } {
+  if (!approved) {
+    return { status: "unapproved", fillableQuantity: 0n };
+  }
+  if (sellerBalance < quantityRemaining) {
+    return { status: "underfunded", fillableQuantity: sellerBalance };
+  }
+  return { status: "fillable", fillableQuantity: quantityRemaining };
+}
+
+// Marketplace address on the chain currently being indexed
+export function getMarketplaceAddress(context: ListingContext) {
+  const address = context.contracts.Marketplace.address;
+  if (!address) {
+    throw new Error("Marketplace address is not configured for this chain");
+  }
+  return address.toLowerCase() as `0x${string}`;
+}
+
+// Read the seller's ticket balance and marketplace approval for an event tier
+export async function getSellerState(
+  context: ListingContext,
+  eventId: string,
+  tierId: string,
+  seller: `0x${string}`,
+): Promise<{ balance: bigint; approved: boolean }> {
+  const marketplace = getMarketplaceAddress(context);
+
+  const [balanceRow, approvalRow] = await Promise.all([
+    context.db.find(ticketBalance, { id: `${tierId}-${seller}` }),
+    context.db.find(ticketApproval, {
+      id: `${eventId}-${seller}-${marketplace}`,
+    }),
+  ]);
+
+  return {
+    balance: balanceRow?.balance ?? 0n,
+    approved: approvalRow?.approved ?? false,
+  };
+}
+
+// Recompute status for every active listing of a seller on an event (optionally a single tier)
+export async function refreshSellerListings(
+  context: ListingContext,
+  change: ListingChange,
+  eventId: string,
+  seller: `0x${string}`,
+  tierId?: string,
+) {
+  const activeListings = await context.db.sql
+    .select()
+    .from(listing)
+    .where(
+      and(
+        eq(listing.sellerId, seller),
+        eq(listing.eventId, eventId),
+        eq(listing.active, true),
+        tierId ? eq(listing.tierId, tierId) : undefined,
+      ),
+    );
+
+  for (const row of activeListings) {
+    const { balance, approved } = await getSellerState(
+      context,
+      eventId,
+      row.tierId,
+      seller,
+    );
+
+    const derived = deriveListingStatus(
+      row.quantityRemaining,
+      balance,
+      approved,
+    );
+    // Untouched listings keep their position in the live feed
+    if (
+      derived.status !== row.status ||
+      derived.fillableQuantity !== row.fillableQuantity
+    ) {
+      await context.db
+        .update(listing, { id: row.id })
+        .set({ ...derived, ...change });
+    }
+  }
+}
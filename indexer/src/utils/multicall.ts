@@ -0,0 +1,10 @@
+import { AbiDecodingZeroDataError, BaseError } from "viem";
+
+// Multicall3 returns no data at blocks before its deployment; anything else
+// (RPC failures, reverts) is a real error
+export function isMulticallMissing(error: unknown): boolean {
+  return (
+    error instanceof BaseError &&
+    error.walk((cause) => cause instanceof AbiDecodingZeroDataError) !== null
+  );
+}
@@ -0,0 +1,47 @@
+import type { Context } from "ponder:registry";
+import { ticketTransfer } from "ponder:schema";
+import { and, desc, eq, lt } from "ponder";
+
+type TransferKind = (typeof ticketTransfer.$inferSelect)["kind"];
+
+/**
+ * TransferSingle/TransferBatch are logged before the TicketRedeemed or
+ * ListingPurchased they belong to, so transfers are first stored as a plain
+ * burn/transfer and upgraded here once the correlating log is processed.
+ * Picks the closest earlier matching movement in the same transaction.
+ */
+export async function reclassifyTicketTransfer(
+  context: Pick<Context, "db" | "chain">,
+  match: {
+    txHash: `0x${string}`;
+    beforeLogIndex: number;
+    tierId: string;
+    from: `0x${string}`;
+    to: `0x${string}`;
+    kind: TransferKind;
+  },
+  kind: TransferKind,
+) {
+  const [row] = await context.db.sql
+    .select({ id: ticketTransfer.id })
+    .from(ticketTransfer)
+    .where(
+      and(
+        eq(ticketTransfer.txHash, match.txHash),
+        eq(ticketTransfer.chainId, context.chain.id),
+        lt(ticketTransfer.logIndex, match.beforeLogIndex),
+        eq(ticketTransfer.tierId, match.tierId),
+        eq(ticketTransfer.fromId, match.from),
+        eq(ticketTransfer.toId, match.to),
+        eq(ticketTransfer.kind, match.kind),
+      ),
+    )
+    .orderBy(desc(ticketTransfer.logIndex))
+    .limit(1);
+
+  if (!row) {
+    return false;
+  }
+  await context.db.update(ticketTransfer, { id: row.id }).set({ kind });
+  return true;
+}
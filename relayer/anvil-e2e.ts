@@ -0,0 +1,266 @@
+/**
+ * End-to-end check of the relayer against a local anvil node:
+ *
+ *   anvil
+ *   forge script script/Deploy.s.sol:DeployLocal --rpc-url http://127.0.0.1:8545 --broadcast
+ *   EVENT_ADDRESS=<"Event:" from the script output> bun run relayer/anvil-e2e.ts
+ *
+ * Uses anvil's default accounts: #0 (DeployLocal's deployer) owns the event
+ * and adds #7-#9 as gatekeepers for the relayer's key pool; #1-#4 buy tickets
+ * and sign two redemptions each, posting the later nonce first so the relayer
+ * has to hold it back. A second phase turns automine off so the relayer has to
+ * replace a pending transaction before it is mined.
+ */
+import {
+  createTestClient,
+  createWalletClient,
+  http,
+  type Hex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import type { Address } from "../sdk/deployments";
+import {
+  addGatekeeper,
+  buyTickets,
+  getRedemptionNonce,
+  getTicketBalance,
+  isGatekeeper,
+} from "../sdk/event";
+import { createRedemptionQr } from "../sdk/qr";
+import {
+  createRelayer,
+  loadRelayerConfig,
+  type RedemptionJob,
+  startRelayerServer,
+} from "./index";
+
+const ANVIL_KEYS: Hex[] = [
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+  "0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6",
+  "0x47e179ec197488593b187f80a00eb0da91f1b9d0b13f8733639f19c30a34926a",
+  "0x8b3a350cf5c34c9194ca85829a2df0ec3153be0318b5e2d3348e872092edffba",
+  "0x92db14e403b83dfe3df233f83dfa3a0d7096f21ca9b0d6d6b8d88b2b4ec1564e",
+  "0x4bbbf85ce3377467afe5d46f804f221813b2bb87f24d81f60f1fcdbf7cbf4356",
+  "0xdbda1821b80551c9d65939329250298aa3472ba22feea921c0cf5d620ea67b97",
+  "0x2a871d0798f97d79848a013d4936a73bf4cc922c825d33c1cf7073dff6d409c6",
+];
+const GA_TIER_ID = 2n;
+const API_TOKEN = "anvil-e2e";
+const TICKETS_PER_HOLDER = 2n;
+
+const rpcUrl = process.env.RPC_URL ?? "http://127.0.0.1:8545";
+const eventAddress = process.env.EVENT_ADDRESS as Address | undefined;
+if (!eventAddress) {
+  throw new Error("EVENT_ADDRESS is required (see DeployLocal output)");
+}
+
+function wallet(index: number) {
+  return createWalletClient({
+    account: privateKeyToAccount(ANVIL_KEYS[index]!),
+    chain: foundry,
+    transport: http(rpcUrl),
+  });
+}
+
+const testClient = createTestClient({
+  mode: "anvil",
+  chain: foundry,
+  transport: http(rpcUrl),
+});
+
+const owner = wallet(0);
+const relayerKeys = [7, 8, 9].map((index) => ANVIL_KEYS[index]!);
+const holders = [1, 2, 3, 4].map(wallet);
+
+for (const key of relayerKeys) {
+  const { address } = privateKeyToAccount(key);
+  if (!(await isGatekeeper(owner, eventAddress, address))) {
+    await addGatekeeper(owner, eventAddress, address);
+  }
+}
+
+const deadline = BigInt(Math.floor(Date.now() / 1000) + 600);
+
+const config = loadRelayerConfig({
+  RELAYER_RPC_URL: rpcUrl,
+  RELAYER_PRIVATE_KEYS: relayerKeys.join(","),
+  RELAYER_EVENTS: eventAddress,
+  RELAYER_API_TOKEN: API_TOKEN,
+  RELAYER_PORT: "0",
+  RELAYER_BUMP_AFTER_MS: "2000",
+  RELAYER_POLL_INTERVAL_MS: "200",
+});
+const relayer = await createRelayer(config);
+const server = startRelayerServer(relayer, config);
+
+// Bigint fields come back as strings; only these are inspected
+type JobResponse = Pick<
+  RedemptionJob,
+  "id" | "status" | "gatekeeper" | "hashes" | "error"
+> & { blockNumber: string | null };
+
+async function post(qr: string) {
+  const response = await fetch(new URL("/redemptions", server.url), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${API_TOKEN}`,
+    },
+    body: JSON.stringify({ qr }),
+  });
+  return {
+    status: response.status,
+    job: (await response.json()) as JobResponse,
+  };
+}
+
+async function getJob(id: Hex) {
+  const response = await fetch(new URL(`/redemptions/${id}`, server.url), {
+    headers: { Authorization: `Bearer ${API_TOKEN}` },
+  });
+  return (await response.json()) as JobResponse;
+}
+
+function isFinal(job: JobResponse) {
+  return job.status === "confirmed" || job.status === "failed";
+}
+
+async function waitForFinal(ids: Hex[], timeoutMs = 60_000) {
+  const deadlineMs = Date.now() + timeoutMs;
+  for (;;) {
+    const jobs = await Promise.all(ids.map(getJob));
+    if (jobs.every(isFinal)) {
+      return jobs;
+    }
+    if (Date.now() > deadlineMs) {
+      const statuses = jobs.map((job) => job.status).join(", ");
+      throw new Error(`Timed out: ${statuses}`);
+    }
+    await Bun.sleep(250);
+  }
+}
+
+function gaBalance(holder: (typeof holders)[number]) {
+  return getTicketBalance(
+    holder,
+    eventAddress!,
+    holder.account.address,
+    GA_TIER_ID,
+  );
+}
+
+const failures: string[] = [];
+function check(condition: boolean, message: string) {
+  console.log(`${condition ? "ok  " : "FAIL"} ${message}`);
+  if (!condition) {
+    failures.push(message);
+  }
+}
+
+try {
+  // ---- Phase 1: concurrent redemptions across holders ----
+  const balancesBefore = await Promise.all(holders.map(gaBalance));
+  const qrs: string[] = [];
+  for (const holder of holders) {
+    await buyTickets(holder, {
+      eventAddress,
+      tierId: GA_TIER_ID,
+      quantity: TICKETS_PER_HOLDER,
+    });
+    const nonce = await getRedemptionNonce(
+      holder,
+      eventAddress,
+      holder.account.address,
+    );
+    // Signed ahead for the nonces the earlier payloads consume, and posted
+    // latest nonce first
+    for (let i = TICKETS_PER_HOLDER - 1n; i >= 0n; i--) {
+      const { qr } = await createRedemptionQr(holder, {
+        eventAddress,
+        tierId: GA_TIER_ID,
+        deadline,
+        nonce: nonce + i,
+      });
+      qrs.push(qr);
+    }
+  }
+
+  // Sequential so each holder's later nonce reaches the relayer first
+  const accepted: Awaited<ReturnType<typeof post>>[] = [];
+  for (const qr of qrs) {
+    accepted.push(await post(qr));
+  }
+  check(
+    accepted.every(({ status }) => status === 202),
+    `${qrs.length} payloads accepted`,
+  );
+  const unauthorized = await fetch(new URL("/status", server.url));
+  check(unauthorized.status === 401, "requests without the token rejected");
+  const duplicate = await post(qrs[0]!);
+  check(
+    duplicate.status === 200 && duplicate.job.id === accepted[0]!.job.id,
+    "resubmitted payload returns the existing job",
+  );
+
+  const jobs = await waitForFinal(accepted.map(({ job }) => job.id));
+  const outcomes = jobs.map((job) => job.error?.code ?? job.status);
+  check(
+    jobs.every((job) => job.status === "confirmed"),
+    `all confirmed (${outcomes.join(", ")})`,
+  );
+  // qrs holds each holder's payloads from the latest nonce down
+  const perHolder = Number(TICKETS_PER_HOLDER);
+  check(
+    holders.every((_, h) => {
+      const mined = jobs
+        .slice(h * perHolder, (h + 1) * perHolder)
+        .map((job) => BigInt(job.blockNumber ?? 0));
+      return mined.every((block, i) => i === 0 || block < mined[i - 1]!);
+    }),
+    "each holder's payloads mined in nonce order despite arriving reversed",
+  );
+  check(
+    new Set(jobs.map((job) => job.gatekeeper)).size === relayerKeys.length,
+    "work spread over every key in the pool",
+  );
+  const balancesAfter = await Promise.all(holders.map(gaBalance));
+  check(
+    balancesAfter.every((balance, i) => balance === balancesBefore[i]),
+    "every bought ticket was burned",
+  );
+
+  // ---- Phase 2: a stuck transaction is replaced with higher fees ----
+  const holder = holders[0]!;
+  await buyTickets(holder, { eventAddress, tierId: GA_TIER_ID, quantity: 1n });
+  const { qr } = await createRedemptionQr(holder, {
+    eventAddress,
+    tierId: GA_TIER_ID,
+    deadline,
+  });
+
+  await testClient.setAutomine(false);
+  const { job } = await post(qr);
+  await Bun.sleep(config.bumpAfterMs * 2 + 1_000);
+  await testClient.mine({ blocks: 1 });
+  await testClient.setAutomine(true);
+
+  const [bumped] = await waitForFinal([job.id]);
+  check(
+    bumped!.status === "confirmed",
+    "stuck redemption confirmed after mining",
+  );
+  check(
+    bumped!.hashes.length > 1,
+    `replaced while pending (${bumped!.hashes.length} broadcasts)`,
+  );
+
+  console.log(`${failures.length} failure(s)`);
+} finally {
+  await testClient.setAutomine(true);
+  server.stop(true);
+}
+
+process.exit(failures.length === 0 ? 0 : 1);
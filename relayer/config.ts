@@ -0,0 +1,107 @@
+import { isAddress, isHex, type Hex } from "viem";
+import type { Address } from "../sdk/deployments";
+
+export type RelayerConfig = {
+  rpcUrl: string;
+  port: number;
+  // Gatekeeper keys transactions are sent from; each must be a gatekeeper on
+  // every event it serves
+  privateKeys: Hex[];
+  // Events accepted for relaying; null accepts any event the keys can redeem on
+  events: Address[] | null;
+  // Bearer token required on every request; each accepted payload spends gas
+  // from the pooled keys, so the API is never open
+  apiToken: string;
+  // Replace a transaction that is still pending after this long
+  bumpAfterMs: number;
+  // Added to the fees on each replacement; nodes reject bumps below 10%
+  bumpPercent: bigint;
+  maxBumps: number;
+  // Receipt polling interval
+  pollIntervalMs: number;
+};
+
+export class RelayerConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RelayerConfigError";
+  }
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseInteger(
+  env: Record<string, string | undefined>,
+  key: string,
+  fallback: number,
+  min: number,
+): number {
+  const value = env[key];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  if (!/^\d+$/.test(value) || Number(value) < min) {
+    throw new RelayerConfigError(
+      `${key} must be an integer >= ${min}, got "${value}"`,
+    );
+  }
+  return Number(value);
+}
+
+// Throws RelayerConfigError describing the first invalid variable
+export function loadRelayerConfig(
+  env: Record<string, string | undefined>,
+): RelayerConfig {
+  const rpcUrl = env.RELAYER_RPC_URL;
+  if (!rpcUrl) {
+    throw new RelayerConfigError("RELAYER_RPC_URL is required");
+  }
+
+  const privateKeys = parseList(env.RELAYER_PRIVATE_KEYS);
+  if (privateKeys.length === 0) {
+    throw new RelayerConfigError(
+      "RELAYER_PRIVATE_KEYS must list at least one gatekeeper key",
+    );
+  }
+  for (const [i, key] of privateKeys.entries()) {
+    if (!isHex(key) || key.length !== 66) {
+      throw new RelayerConfigError(
+        `RELAYER_PRIVATE_KEYS[${i}] is not a 32-byte hex private key`,
+      );
+    }
+  }
+
+  const apiToken = env.RELAYER_API_TOKEN;
+  if (!apiToken) {
+    throw new RelayerConfigError(
+      "RELAYER_API_TOKEN is required: requests are accepted only with " +
+        "Authorization: Bearer <token>",
+    );
+  }
+
+  const events = parseList(env.RELAYER_EVENTS);
+  for (const event of events) {
+    if (!isAddress(event, { strict: false })) {
+      throw new RelayerConfigError(
+        `RELAYER_EVENTS contains an invalid address: "${event}"`,
+      );
+    }
+  }
+
+  return {
+    rpcUrl,
+    port: parseInteger(env, "RELAYER_PORT", 8787, 0),
+    privateKeys: privateKeys as Hex[],
+    events: events.length > 0 ? (events as Address[]) : null,
+    apiToken,
+    bumpAfterMs: parseInteger(env, "RELAYER_BUMP_AFTER_MS", 15_000, 1),
+    bumpPercent: BigInt(parseInteger(env, "RELAYER_BUMP_PERCENT", 15, 10)),
+    maxBumps: parseInteger(env, "RELAYER_MAX_BUMPS", 3, 0),
+    pollIntervalMs: parseInteger(env, "RELAYER_POLL_INTERVAL_MS", 1_000, 1),
+  };
+}
@@ -0,0 +1,45 @@
+import { createClient, http } from "viem";
+import { getChainId } from "viem/actions";
+import { isGatekeeper } from "../sdk/event";
+import { loadRelayerConfig, type RelayerConfig } from "./config";
+import { KeyPool } from "./keyPool";
+import { RedemptionRelayer } from "./relayer";
+import { startRelayerServer } from "./server";
+
+export * from "./config";
+export * from "./keyPool";
+export * from "./relayer";
+export * from "./server";
+export * from "./submitter";
+
+export async function createRelayer(
+  config: RelayerConfig,
+): Promise<RedemptionRelayer> {
+  const client = createClient({ transport: http(config.rpcUrl) });
+  const chainId = await getChainId(client);
+  const pool = new KeyPool(config.privateKeys);
+
+  // Redemptions from a key that is not a gatekeeper revert in simulation
+  for (const event of config.events ?? []) {
+    for (const key of pool.keys) {
+      if (!(await isGatekeeper(client, event, key.address))) {
+        console.warn(
+          `[relayer] ${key.address} is not a gatekeeper on ${event}`,
+        );
+      }
+    }
+  }
+
+  return new RedemptionRelayer(client, pool, config, chainId);
+}
+
+// bun run relayer/index.ts
+if (import.meta.main) {
+  const config = loadRelayerConfig(process.env);
+  const relayer = await createRelayer(config);
+  const server = startRelayerServer(relayer, config);
+  console.log(
+    `[relayer] chain ${relayer.chainId}, ` +
+      `${config.privateKeys.length} key(s), listening on ${server.url}`,
+  );
+}
@@ -0,0 +1,79 @@
+import type { Hex } from "viem";
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+import { getTransactionCount } from "viem/actions";
+import type { Address } from "../sdk/deployments";
+import type { SdkClient } from "../sdk/utils";
+
+/**
+ * A gatekeeper key with a locally tracked nonce. The nonce is read from the
+ * node once (pending block) and then advanced on every first broadcast, so
+ * submissions do not race on eth_getTransactionCount. Replacements reuse the
+ * nonce of the transaction they replace.
+ */
+export class GatekeeperKey {
+  readonly account: PrivateKeyAccount;
+  busy = false;
+  private nonce: number | null = null;
+
+  constructor(privateKey: Hex) {
+    this.account = privateKeyToAccount(privateKey);
+  }
+
+  get address(): Address {
+    return this.account.address;
+  }
+
+  // Nonce for the next new transaction; does not advance it
+  async nextNonce(client: SdkClient): Promise<number> {
+    if (this.nonce === null) {
+      this.nonce = await getTransactionCount(client, {
+        address: this.address,
+        blockTag: "pending",
+      });
+    }
+    return this.nonce;
+  }
+
+  // Call once a transaction using nextNonce() has been accepted by the node
+  advance() {
+    if (this.nonce !== null) {
+      this.nonce += 1;
+    }
+  }
+
+  // Re-read from the node before the next transaction, e.g. after a nonce error
+  resync() {
+    this.nonce = null;
+  }
+
+  get trackedNonce(): number | null {
+    return this.nonce;
+  }
+}
+
+// Keys run one redemption at a time; throughput scales with the pool size
+export class KeyPool {
+  readonly keys: GatekeeperKey[];
+  private cursor = 0;
+
+  constructor(privateKeys: Hex[]) {
+    this.keys = privateKeys.map((key) => new GatekeeperKey(key));
+  }
+
+  // Round-robin so gas spend is spread evenly across the funded wallets
+  acquire(): GatekeeperKey | null {
+    for (let i = 0; i < this.keys.length; i++) {
+      const key = this.keys[(this.cursor + i) % this.keys.length]!;
+      if (!key.busy) {
+        this.cursor = (this.cursor + i + 1) % this.keys.length;
+        key.busy = true;
+        return key;
+      }
+    }
+    return null;
+  }
+
+  release(key: GatekeeperKey) {
+    key.busy = false;
+  }
+}
@@ -0,0 +1,338 @@
+import { isAddressEqual, keccak256, type Hash, type Hex } from "viem";
+import type { Address } from "../sdk/deployments";
+import { getRedemptionNonce } from "../sdk/event";
+import {
+  decodeRedemptionQr,
+  RedemptionQrError,
+  type RedemptionQrPayload,
+  verifyRedemptionQr,
+} from "../sdk/qr";
+import type { SdkClient } from "../sdk/utils";
+import type { RelayerConfig } from "./config";
+import type { GatekeeperKey, KeyPool } from "./keyPool";
+import { RedemptionSubmitError, submitRedemption } from "./submitter";
+
+export type RedemptionStatus =
+  | "queued" // waiting for a free key (or for the holder's earlier payload)
+  | "submitting" // simulating and signing
+  | "pending" // broadcast, waiting to be mined
+  | "confirmed"
+  | "failed";
+
+export type RedemptionJob = {
+  id: Hex; // keccak256 of the holder's signature
+  payload: RedemptionQrPayload;
+  status: RedemptionStatus;
+  attempts: number;
+  gatekeeper: Address | null; // key the transaction is sent from
+  hashes: Hash[]; // every broadcast, replacements last
+  txHash: Hash | null; // the broadcast that was mined
+  blockNumber: bigint | null;
+  accessPassId: bigint | null;
+  error: { code: string; message: string } | null;
+  receivedAt: number; // ms
+  updatedAt: number; // ms
+};
+
+// Retries for failures that happen before anything is broadcast
+const MAX_ATTEMPTS = 3;
+// Finished jobs are kept this long for status lookups
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+// A payload ahead of the holder's on-chain nonce is re-checked this often in
+// case the earlier payload is redeemed elsewhere
+const NONCE_RECHECK_MS = 5_000;
+
+/**
+ * Accepts signed redemption QR payloads, queues them per event and submits
+ * them from a pool of gatekeeper keys. Events are served round-robin; within
+ * an event, payloads from the same holder run one at a time in nonce order
+ * because each signature is bound to the holder's next nonce on the Event
+ * contract. A payload whose nonce is ahead of the chain waits until the
+ * holder's earlier payload is redeemed.
+ */
+export class RedemptionRelayer {
+  private readonly jobs = new Map<Hex, RedemptionJob>();
+  // Insertion order doubles as the round-robin order
+  private readonly queues = new Map<Address, RedemptionJob[]>();
+  private readonly activeHolders = new Set<string>();
+  // Jobs whose nonce is ahead of the holder's on-chain nonce
+  private readonly waiting = new Map<Hex, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private readonly client: SdkClient,
+    private readonly pool: KeyPool,
+    private readonly config: RelayerConfig,
+    readonly chainId: number,
+  ) {}
+
+  /**
+   * Verify and queue a QR payload. Resubmitting a payload that is queued,
+   * pending or confirmed returns the existing job; a failed one is retried.
+   * Throws RedemptionQrError for payloads that can never succeed. Jobs are
+   * not persisted: a restart drops queued jobs and forgets the status of all
+   * of them, so the scanner resubmits the QR (valid until its deadline) when a
+   * job it was polling is no longer found.
+   */
+  async enqueue(qr: string): Promise<{ job: RedemptionJob; created: boolean }> {
+    const { eventAddress } = decodeRedemptionQr(qr);
+    if (
+      this.config.events &&
+      !this.config.events.some((event) => isAddressEqual(event, eventAddress))
+    ) {
+      throw new RedemptionQrError(
+        "WrongEvent",
+        `Event ${eventAddress} is not served by this relayer`,
+      );
+    }
+    const payload = await verifyRedemptionQr(qr, {
+      chainId: this.chainId,
+      eventAddress,
+    });
+
+    this.prune();
+    const id = keccak256(payload.signature);
+    const existing = this.jobs.get(id);
+    if (existing && existing.status !== "failed") {
+      return { job: existing, created: false };
+    }
+
+    const now = Date.now();
+    const job: RedemptionJob = {
+      id,
+      payload,
+      status: "queued",
+      attempts: 0,
+      gatekeeper: null,
+      hashes: [],
+      txHash: null,
+      blockNumber: null,
+      accessPassId: null,
+      error: null,
+      receivedAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(id, job);
+    this.push(job);
+    this.dispatch();
+    return { job, created: true };
+  }
+
+  get(id: Hex): RedemptionJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  status() {
+    return {
+      chainId: this.chainId,
+      keys: this.pool.keys.map((key) => ({
+        address: key.address,
+        busy: key.busy,
+        nonce: key.trackedNonce,
+      })),
+      queues: [...this.queues].map(([eventAddress, queue]) => ({
+        eventAddress,
+        queued: queue.length,
+      })),
+      waiting: this.waiting.size,
+    };
+  }
+
+  // Queue at the back (or front), but never out of nonce order for its holder
+  private push(job: RedemptionJob, front = false) {
+    const event = job.payload.eventAddress;
+    const queue = this.queues.get(event) ?? [];
+    const holder = holderKey(job);
+    let index = front ? 0 : queue.length;
+    for (const [i, queued] of queue.entries()) {
+      if (holderKey(queued) !== holder) {
+        continue;
+      }
+      if (queued.payload.nonce < job.payload.nonce) {
+        index = Math.max(index, i + 1);
+      } else {
+        index = Math.min(index, i);
+      }
+    }
+    queue.splice(index, 0, job);
+    this.queues.set(event, queue);
+  }
+
+  // Park a job until its holder's earlier payload settles or a recheck is due
+  private wait(job: RedemptionJob) {
+    update(job, { status: "queued", gatekeeper: null });
+    this.waiting.set(
+      job.id,
+      setTimeout(() => this.resume(job), NONCE_RECHECK_MS),
+    );
+  }
+
+  private resume(job: RedemptionJob) {
+    const timer = this.waiting.get(job.id);
+    if (timer === undefined) {
+      return;
+    }
+    clearTimeout(timer);
+    this.waiting.delete(job.id);
+    this.push(job);
+    this.dispatch();
+  }
+
+  private resumeHolder(holder: string) {
+    for (const id of this.waiting.keys()) {
+      const job = this.jobs.get(id);
+      if (job && holderKey(job) === holder) {
+        this.resume(job);
+      }
+    }
+  }
+
+  // Compare the payload nonce with the holder's next nonce on the contract
+  private async checkNonce(
+    job: RedemptionJob,
+  ): Promise<"ready" | "ahead" | "stale"> {
+    const { eventAddress, ticketHolder, nonce } = job.payload;
+    let onchainNonce: bigint;
+    try {
+      onchainNonce = await getRedemptionNonce(
+        this.client,
+        eventAddress,
+        ticketHolder,
+      );
+    } catch (error) {
+      console.warn(`[relayer] Nonce lookup failed for ${ticketHolder}:`, error);
+      throw new RedemptionSubmitError(
+        "SendFailed",
+        `Could not read the redemption nonce of ${ticketHolder}`,
+        true,
+      );
+    }
+    if (nonce === onchainNonce) {
+      return "ready";
+    }
+    return nonce > onchainNonce ? "ahead" : "stale";
+  }
+
+  // Next job whose holder has nothing in flight, rotating across events
+  private take(): RedemptionJob | null {
+    for (const [event, queue] of this.queues) {
+      const index = queue.findIndex(
+        (job) => !this.activeHolders.has(holderKey(job)),
+      );
+      if (index < 0) {
+        continue;
+      }
+      const [job] = queue.splice(index, 1);
+      this.queues.delete(event);
+      if (queue.length > 0) {
+        this.queues.set(event, queue);
+      }
+      return job!;
+    }
+    return null;
+  }
+
+  private dispatch() {
+    for (;;) {
+      const key = this.pool.acquire();
+      if (!key) {
+        return;
+      }
+      const job = this.take();
+      if (!job) {
+        this.pool.release(key);
+        return;
+      }
+      void this.run(key, job);
+    }
+  }
+
+  private async run(key: GatekeeperKey, job: RedemptionJob) {
+    const holder = holderKey(job);
+    this.activeHolders.add(holder);
+    job.attempts += 1;
+    update(job, { status: "submitting", gatekeeper: key.address });
+
+    try {
+      const nonceState = await this.checkNonce(job);
+      if (nonceState === "ahead") {
+        if (BigInt(Math.floor(Date.now() / 1000)) > job.payload.deadline) {
+          throw new RedemptionSubmitError(
+            "Expired",
+            `Nonce ${job.payload.nonce - 1n} of ${job.payload.ticketHolder} was not redeemed before the signed deadline`,
+          );
+        }
+        // Not a failed attempt: the holder's earlier payload is still due
+        job.attempts -= 1;
+        this.wait(job);
+        return;
+      }
+      if (nonceState === "stale") {
+        throw new RedemptionSubmitError(
+          "StaleNonce",
+          `Nonce ${job.payload.nonce} of ${job.payload.ticketHolder} was already used`,
+        );
+      }
+
+      const result = await submitRedemption(
+        this.client,
+        key,
+        job.payload,
+        this.config,
+        (hash) =>
+          update(job, { status: "pending", hashes: [...job.hashes, hash] }),
+      );
+      update(job, {
+        status: "confirmed",
+        txHash: result.hash,
+        blockNumber: result.receipt.blockNumber,
+        accessPassId: result.accessPassId,
+      });
+    } catch (error) {
+      if (
+        error instanceof RedemptionSubmitError &&
+        error.retryable &&
+        job.attempts < MAX_ATTEMPTS
+      ) {
+        update(job, { status: "queued", gatekeeper: null });
+        this.push(job, true);
+      } else {
+        console.error(`[relayer] Redemption ${job.id} failed:`, error);
+        update(job, {
+          status: "failed",
+          error:
+            error instanceof RedemptionSubmitError
+              ? { code: error.code, message: error.message }
+              : { code: "Internal", message: "Relayer error" },
+        });
+      }
+    } finally {
+      this.activeHolders.delete(holder);
+      this.pool.release(key);
+      if (job.status === "confirmed" || job.status === "failed") {
+        this.resumeHolder(holder);
+      }
+      this.dispatch();
+    }
+  }
+
+  private prune() {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, job] of this.jobs) {
+      if (
+        (job.status === "confirmed" || job.status === "failed") &&
+        job.updatedAt < cutoff
+      ) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+function holderKey(job: RedemptionJob): string {
+  const { eventAddress, ticketHolder } = job.payload;
+  return `${eventAddress}-${ticketHolder}`.toLowerCase();
+}
+
+function update(job: RedemptionJob, changes: Partial<RedemptionJob>) {
+  Object.assign(job, changes, { updatedAt: Date.now() });
+}
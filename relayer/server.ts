@@ -0,0 +1,95 @@
+import { isHex } from "viem";
+import { RedemptionQrError } from "../sdk/qr";
+import type { RelayerConfig } from "./config";
+import type { RedemptionJob, RedemptionRelayer } from "./relayer";
+
+// Bigints (tierId, nonce, deadline, accessPassId, ...) as decimal strings
+function json(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body, (_, value) =>
+      typeof value === "bigint" ? value.toString() : value,
+    ),
+    { status, headers: { "Content-Type": "application/json" } },
+  );
+}
+
+function serializeJob(job: RedemptionJob) {
+  const { payload, ...rest } = job;
+  return {
+    ...rest,
+    chainId: payload.chainId,
+    eventAddress: payload.eventAddress,
+    ticketHolder: payload.ticketHolder,
+    tierId: payload.tierId,
+    nonce: payload.nonce,
+    deadline: payload.deadline,
+  };
+}
+
+async function handle(
+  relayer: RedemptionRelayer,
+  config: Pick<RelayerConfig, "apiToken">,
+  request: Request,
+): Promise<Response> {
+  const { pathname } = new URL(request.url);
+
+  if (request.headers.get("Authorization") !== `Bearer ${config.apiToken}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  // POST /redemptions { qr } - verify and queue a scanned QR payload
+  if (pathname === "/redemptions" && request.method === "POST") {
+    let qr: unknown;
+    try {
+      ({ qr } = (await request.json()) as { qr?: unknown });
+    } catch {
+      return json({ error: "Body must be JSON" }, 400);
+    }
+    if (typeof qr !== "string" || qr.length === 0) {
+      return json({ error: "qr must be the scanned QR text" }, 400);
+    }
+
+    try {
+      const { job, created } = await relayer.enqueue(qr);
+      return json(serializeJob(job), created ? 202 : 200);
+    } catch (error) {
+      if (error instanceof RedemptionQrError) {
+        return json({ error: error.message, code: error.code }, 400);
+      }
+      throw error;
+    }
+  }
+
+  // GET /redemptions/:id - status of a queued payload; jobs are kept in memory,
+  // so ids from before a restart are not found
+  const match = /^\/redemptions\/([^/]+)$/.exec(pathname);
+  if (match && request.method === "GET") {
+    const id = match[1]!;
+    const job = isHex(id) ? relayer.get(id) : undefined;
+    if (!job) {
+      return json({ error: "Redemption not found" }, 404);
+    }
+    return json(serializeJob(job));
+  }
+
+  // GET /status - key pool and queue depth per event
+  if (pathname === "/status" && request.method === "GET") {
+    return json(relayer.status());
+  }
+
+  return json({ error: "Not found" }, 404);
+}
+
+export function startRelayerServer(
+  relayer: RedemptionRelayer,
+  config: Pick<RelayerConfig, "port" | "apiToken">,
+) {
+  return Bun.serve({
+    port: config.port,
+    fetch: (request) => handle(relayer, config, request),
+    error(error) {
+      console.error("[relayer]", error);
+      return json({ error: "Internal server error" }, 500);
+    },
+  });
+}
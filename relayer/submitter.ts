@@ -0,0 +1,376 @@
+import {
+  BaseError,
+  encodeFunctionData,
+  keccak256,
+  parseEventLogs,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Hash,
+  type TransactionReceipt,
+} from "viem";
+import {
+  estimateFeesPerGas,
+  estimateGas,
+  getGasPrice,
+  getTransaction,
+  getTransactionCount,
+  getTransactionReceipt,
+  sendRawTransaction,
+  sendTransaction,
+  simulateContract,
+} from "viem/actions";
+import { EventAbi } from "../sdk/abis";
+import { decodeSimplrError } from "../sdk/errors";
+import type { RedemptionQrPayload } from "../sdk/qr";
+import { resolveChainId, type SdkClient } from "../sdk/utils";
+import type { RelayerConfig } from "./config";
+import type { GatekeeperKey } from "./keyPool";
+
+export type SubmitErrorCode =
+  | ReturnType<typeof decodeSimplrError>["code"]
+  | "NonceConflict"
+  | "StaleNonce"
+  | "SendFailed"
+  | "Reverted"
+  | "Expired";
+
+export class RedemptionSubmitError extends Error {
+  readonly code: SubmitErrorCode;
+  // Nothing was broadcast, so the payload can be retried on any key
+  readonly retryable: boolean;
+
+  constructor(code: SubmitErrorCode, message: string, retryable = false) {
+    super(message);
+    this.name = "RedemptionSubmitError";
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export type SubmitResult = {
+  hash: Hash;
+  receipt: TransactionReceipt;
+  accessPassId: bigint;
+};
+
+type Fees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint };
+
+// EIP-1559 when the chain reports a base fee, else a legacy gas price
+async function estimateFees(client: SdkClient): Promise<Fees> {
+  try {
+    const { maxFeePerGas, maxPriorityFeePerGas } = await estimateFeesPerGas(
+      client,
+      { chain: null, type: "eip1559" },
+    );
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  } catch {
+    return { gasPrice: await getGasPrice(client) };
+  }
+}
+
+function bumpFees(fees: Fees, percent: bigint): Fees {
+  // +1 so tiny test-network fees still strictly increase
+  const bump = (value: bigint) => (value * (100n + percent)) / 100n + 1n;
+  return "gasPrice" in fees
+    ? { gasPrice: bump(fees.gasPrice) }
+    : {
+        maxFeePerGas: bump(fees.maxFeePerGas),
+        maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas),
+      };
+}
+
+function shortMessage(error: unknown): string {
+  if (error instanceof BaseError) {
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Where a first broadcast stands after its send failed. A send that timed out
+ * may still have reached the node, so the key's pending nonce is checked
+ * before the payload is retried: past `nonce` means the node holds either this
+ * transaction or another one from the same key at that nonce.
+ */
+async function findBroadcast(
+  client: SdkClient,
+  key: GatekeeperKey,
+  nonce: number,
+  hash: Hash,
+): Promise<"sent" | "conflict" | "none"> {
+  const pending = await getTransactionCount(client, {
+    address: key.address,
+    blockTag: "pending",
+  });
+  if (pending <= nonce) {
+    return "none";
+  }
+  try {
+    await getTransaction(client, { hash });
+    return "sent";
+  } catch (error) {
+    if (error instanceof TransactionNotFoundError) {
+      return "conflict";
+    }
+    throw error;
+  }
+}
+
+// First receipt among all broadcasts of one nonce, or null after timeoutMs
+async function waitForAnyReceipt(
+  client: SdkClient,
+  hashes: Hash[],
+  timeoutMs: number,
+  pollIntervalMs: number,
+): Promise<TransactionReceipt | null> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    for (const hash of hashes) {
+      try {
+        return await getTransactionReceipt(client, { hash });
+      } catch (error) {
+        if (!(error instanceof TransactionReceiptNotFoundError)) {
+          console.warn(`[relayer] Receipt lookup failed for ${hash}:`, error);
+        }
+      }
+    }
+    if (Date.now() >= deadline) {
+      return null;
+    }
+    await Bun.sleep(pollIntervalMs);
+  }
+}
+
+/**
+ * Submit one redemption from `key` and wait for it to be mined. The call is
+ * simulated first so contract reverts fail fast without using a nonce. A
+ * transaction still pending after bumpAfterMs is replaced at the same nonce
+ * with fees raised by bumpPercent, up to maxBumps times; once the signed
+ * deadline passes it can only revert, so the nonce is released with a
+ * self-transfer instead.
+ */
+export async function submitRedemption(
+  client: SdkClient,
+  key: GatekeeperKey,
+  payload: RedemptionQrPayload,
+  config: Pick<
+    RelayerConfig,
+    "bumpAfterMs" | "bumpPercent" | "maxBumps" | "pollIntervalMs"
+  >,
+  onBroadcast: (hash: Hash) => void,
+): Promise<SubmitResult> {
+  const args = [
+    payload.ticketHolder,
+    payload.tierId,
+    payload.deadline,
+    payload.signature,
+  ] as const;
+
+  try {
+    await simulateContract(client, {
+      address: payload.eventAddress,
+      abi: EventAbi,
+      functionName: "redeemTicket",
+      args,
+      account: key.account,
+    });
+  } catch (error) {
+    const decoded = decodeSimplrError(error);
+    throw new RedemptionSubmitError(decoded.code, decoded.message);
+  }
+
+  const data = encodeFunctionData({
+    abi: EventAbi,
+    functionName: "redeemTicket",
+    args,
+  });
+  let gas: bigint;
+  let fees: Fees;
+  let nonce: number;
+  let chainId: number;
+  try {
+    gas = await estimateGas(client, {
+      account: key.account,
+      to: payload.eventAddress,
+      data,
+    });
+    fees = await estimateFees(client);
+    nonce = await key.nextNonce(client);
+    chainId = await resolveChainId(client);
+  } catch (error) {
+    // RPC trouble before anything was broadcast; another attempt may succeed
+    throw new RedemptionSubmitError("SendFailed", shortMessage(error), true);
+  }
+
+  const hashes: Hash[] = [];
+  let bumps = 0;
+  let send = true;
+  for (;;) {
+    if (send) {
+      // Signed locally so the hash is known even when the send times out
+      const signed = await key.account.signTransaction({
+        chainId,
+        to: payload.eventAddress,
+        data,
+        gas,
+        nonce,
+        ...fees,
+      });
+      const hash = keccak256(signed);
+      try {
+        await sendRawTransaction(client, { serializedTransaction: signed });
+        if (hashes.length === 0) {
+          key.advance();
+        }
+        hashes.push(hash);
+        onBroadcast(hash);
+      } catch (error) {
+        if (hashes.length === 0) {
+          await recoverFirstSend(client, key, nonce, hash, error);
+          key.advance();
+          hashes.push(hash);
+          onBroadcast(hash);
+        } else {
+          // A replacement failed (underpriced, or the original was just
+          // mined); keep waiting on the broadcasts that were accepted, and on
+          // this one in case it reached the node anyway
+          console.warn(
+            `[relayer] Replacement for nonce ${nonce} of ${key.address} failed:`,
+            shortMessage(error),
+          );
+          hashes.push(hash);
+        }
+      }
+    }
+
+    const receipt = await waitForAnyReceipt(
+      client,
+      hashes,
+      config.bumpAfterMs,
+      config.pollIntervalMs,
+    );
+    if (receipt) {
+      return toResult(receipt);
+    }
+
+    // redeemTicket reverts once block.timestamp > deadline
+    if (BigInt(Math.floor(Date.now() / 1000)) > payload.deadline) {
+      await releaseNonce(
+        client,
+        key,
+        nonce,
+        bumpFees(fees, config.bumpPercent),
+      );
+      // The last broadcast may have been mined while the release was sent
+      const late = await waitForAnyReceipt(client, hashes, 0, 0);
+      if (late) {
+        return toResult(late);
+      }
+      throw new RedemptionSubmitError(
+        "Expired",
+        `Not mined before the signed deadline (${hashes.join(", ")})`,
+      );
+    }
+
+    send = bumps < config.maxBumps;
+    if (send) {
+      fees = bumpFees(fees, config.bumpPercent);
+      bumps += 1;
+    }
+  }
+}
+
+// Returns when the failed first send reached the node after all; otherwise
+// resyncs the key and throws a retryable error, since nothing of this payload
+// was broadcast
+async function recoverFirstSend(
+  client: SdkClient,
+  key: GatekeeperKey,
+  nonce: number,
+  hash: Hash,
+  error: unknown,
+) {
+  let broadcast: Awaited<ReturnType<typeof findBroadcast>>;
+  try {
+    broadcast = await findBroadcast(client, key, nonce, hash);
+  } catch (lookupError) {
+    // Cannot rule out a broadcast, so keep the nonce and wait on the hash;
+    // the bump and deadline handling cover it if it never arrived
+    console.warn(
+      `[relayer] Could not check nonce ${nonce} of ${key.address} after a failed send:`,
+      shortMessage(lookupError),
+    );
+    return;
+  }
+  if (broadcast === "sent") {
+    console.warn(
+      `[relayer] Send of ${hash} failed but it reached the node:`,
+      shortMessage(error),
+    );
+    return;
+  }
+  key.resync();
+  if (broadcast === "conflict") {
+    throw new RedemptionSubmitError(
+      "NonceConflict",
+      `Nonce ${nonce} of ${key.address} is already used`,
+      true,
+    );
+  }
+  throw new RedemptionSubmitError("SendFailed", shortMessage(error), true);
+}
+
+function toResult(receipt: TransactionReceipt): SubmitResult {
+  if (receipt.status !== "success") {
+    throw new RedemptionSubmitError(
+      "Reverted",
+      `Transaction ${receipt.transactionHash} reverted`,
+    );
+  }
+  const [redeemed] = parseEventLogs({
+    abi: EventAbi,
+    eventName: "TicketRedeemed",
+    logs: receipt.logs,
+  });
+  if (!redeemed) {
+    throw new RedemptionSubmitError(
+      "Reverted",
+      `No TicketRedeemed log in transaction ${receipt.transactionHash}`,
+    );
+  }
+  return {
+    hash: receipt.transactionHash,
+    receipt,
+    accessPassId: redeemed.args.accessPassId,
+  };
+}
+
+// Best effort: replace a stuck transaction with an empty self-transfer so
+// later transactions from this key are not queued behind it
+async function releaseNonce(
+  client: SdkClient,
+  key: GatekeeperKey,
+  nonce: number,
+  fees: Fees,
+) {
+  try {
+    await sendTransaction(client, {
+      account: key.account,
+      chain: null,
+      to: key.address,
+      value: 0n,
+      gas: 21_000n,
+      nonce,
+      ...fees,
+    });
+  } catch (error) {
+    // Most likely the original was mined after all; the node knows the nonce
+    console.warn(
+      `[relayer] Could not release nonce ${nonce} of ${key.address}:`,
+      shortMessage(error),
+    );
+    key.resync();
+  }
+}
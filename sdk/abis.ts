@@ -0,0 +1,6 @@
+// Typed ABIs generated from exports/*.json (see export.sh)
+export { AccessPassNFTAbi } from "../indexer/abis/AccessPassNFTAbi";
+export { EventAbi } from "../indexer/abis/EventAbi";
+export { EventFactoryAbi } from "../indexer/abis/EventFactoryAbi";
+export { MarketplaceAbi } from "../indexer/abis/MarketplaceAbi";
+export { SimplrErrorsErrorsAbi } from "../indexer/abis/SimplrErrorsErrorsAbi";
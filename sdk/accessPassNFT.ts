@@ -0,0 +1,58 @@
+import { readContract } from "viem/actions";
+import { AccessPassNFTAbi, EventAbi } from "./abis";
+import type { Address } from "./deployments";
+import type { SdkClient } from "./utils";
+
+export type PassMetadata = { tierId: bigint; mintTimestamp: bigint };
+
+// AccessPassNFT deployed alongside an event
+export async function getAccessPassNFT(
+  client: SdkClient,
+  eventAddress: Address,
+): Promise<Address> {
+  return readContract(client, {
+    address: eventAddress,
+    abi: EventAbi,
+    functionName: "accessPassNFT",
+  });
+}
+
+export async function getPassMetadata(
+  client: SdkClient,
+  accessPassNFT: Address,
+  tokenId: bigint,
+): Promise<PassMetadata> {
+  return readContract(client, {
+    address: accessPassNFT,
+    abi: AccessPassNFTAbi,
+    functionName: "getMetadata",
+    args: [tokenId],
+  });
+}
+
+// Passes are soulbound for lockDuration after minting
+export async function isPassTransferable(
+  client: SdkClient,
+  accessPassNFT: Address,
+  tokenId: bigint,
+): Promise<boolean> {
+  return readContract(client, {
+    address: accessPassNFT,
+    abi: AccessPassNFTAbi,
+    functionName: "isTransferable",
+    args: [tokenId],
+  });
+}
+
+export async function getPassUnlockTime(
+  client: SdkClient,
+  accessPassNFT: Address,
+  tokenId: bigint,
+): Promise<bigint> {
+  return readContract(client, {
+    address: accessPassNFT,
+    abi: AccessPassNFTAbi,
+    functionName: "transferUnlockTime",
+    args: [tokenId],
+  });
+}
@@ -0,0 +1,240 @@
+export type Address = `0x${string}`;
+
+export type NetworkName = "qieMainnet" | "qieTestnet";
+
+export type ChainMetadata = {
+  id: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  // Public RPC endpoints; empty when none is published for the network
+  rpcUrls: readonly string[];
+  blockExplorerUrl: string | null;
+};
+
+export type DeploymentContracts = {
+  eventFactory: Address;
+  marketplace: Address;
+  eventImplementation: Address;
+  accessPassNFTImplementation: Address;
+  multicall3: Address;
+};
+
+// First blocks worth indexing for the factory (and its clones) and marketplace
+type StartBlocks<T> = { eventFactory: T; marketplace: T };
+
+export type Deployment = {
+  network: NetworkName;
+  chain: ChainMetadata;
+  contracts: DeploymentContracts;
+  // null where the deployment block has not been recorded in the registry
+  startBlocks: StartBlocks<number | null>;
+};
+
+// A deployment whose start blocks are all known (see loadDeployment)
+export type LoadedDeployment = Deployment & {
+  startBlocks: StartBlocks<number>;
+};
+
+// Source of truth for deployed addresses (mirrors deployments.md)
+export const deployments = {
+  qieMainnet: {
+    network: "qieMainnet",
+    chain: {
+      id: 1990,
+      name: "QIE Mainnet",
+      nativeCurrency: { name: "QIE", symbol: "QIE", decimals: 18 },
+      rpcUrls: [],
+      blockExplorerUrl: null,
+    },
+    contracts: {
+      eventFactory: "0x9aF4D4D674E3B405f0FC1f78554FEAeECCE80342",
+      marketplace: "0x78758b12CfF40B366D7B8D5867d43a3238fff935",
+      eventImplementation: "0x9FEFaf2D321617c13f27C8a0b04A6bABcc2F02a5",
+      accessPassNFTImplementation: "0xFEcc3e86b4e51242aA04EA56F2573630FC797BA0",
+      multicall3: "0x38D97De5831Ec059d1e1ff3Daa7371fC3a4d9122",
+    },
+    startBlocks: { eventFactory: null, marketplace: null },
+  },
+  qieTestnet: {
+    network: "qieTestnet",
+    chain: {
+      id: 1983,
+      name: "QIE Testnet",
+      nativeCurrency: { name: "QIE", symbol: "QIE", decimals: 18 },
+      rpcUrls: ["https://rpc1testnet.qie.digital"],
+      blockExplorerUrl: "https://testnet.qie.digital",
+    },
+    contracts: {
+      eventFactory: "0x8C4556d5d06A7A5C41FbC8C24A8c570E118840DA",
+      marketplace: "0xA24B34DfAC1a042A94c4A5F4a017C5606043d958",
+      eventImplementation: "0x655E906affC5288136F61DFFB162769bB4147019",
+      accessPassNFTImplementation: "0xa622c84a62Bd355E9452741f38a1379b0703D91C",
+      multicall3: "0x56F93E2deb41728A4EA5D25fbF76779263038E9c",
+    },
+    startBlocks: { eventFactory: null, marketplace: null },
+  },
+} as const satisfies Record<NetworkName, Deployment>;
+
+export const NETWORKS = Object.keys(deployments) as NetworkName[];
+
+export class DeploymentConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeploymentConfigError";
+  }
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const ZERO_ADDRESS = /^0x0{40}$/;
+
+function assertAddress(value: string, label: string): asserts value is Address {
+  if (!ADDRESS_PATTERN.test(value)) {
+    throw new DeploymentConfigError(
+      `${label} is not a valid address: "${value}"`,
+    );
+  }
+  if (ZERO_ADDRESS.test(value)) {
+    throw new DeploymentConfigError(`${label} is the zero address`);
+  }
+}
+
+function assertChainId(value: number, label: string) {
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    throw new DeploymentConfigError(
+      `${label} is not a valid chain id: ${value}`,
+    );
+  }
+}
+
+function parseBlock(value: string, label: string): number {
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(Number(value))) {
+    throw new DeploymentConfigError(
+      `${label} must be a non-negative integer block number, got "${value}"`,
+    );
+  }
+  return Number(value);
+}
+
+// Throws DeploymentConfigError describing the first invalid field
+export function validateDeployment(deployment: Deployment): Deployment {
+  const prefix = `deployments.${deployment.network}`;
+  assertChainId(deployment.chain.id, `${prefix}.chain.id`);
+  for (const [name, address] of Object.entries(deployment.contracts)) {
+    assertAddress(address, `${prefix}.contracts.${name}`);
+  }
+  for (const [name, block] of Object.entries(deployment.startBlocks)) {
+    if (block !== null && (!Number.isSafeInteger(block) || block < 0)) {
+      throw new DeploymentConfigError(
+        `${prefix}.startBlocks.${name} must be a non-negative integer, ` +
+          `got ${block}`,
+      );
+    }
+  }
+  return deployment;
+}
+
+// Env var suffix for a network, e.g. qieMainnet -> QIE_MAINNET
+export function envSuffix(network: NetworkName): string {
+  return network.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
+const CONTRACT_ENV_KEYS: Record<keyof DeploymentContracts, string> = {
+  eventFactory: "EVENT_FACTORY_ADDRESS",
+  marketplace: "MARKETPLACE_ADDRESS",
+  eventImplementation: "EVENT_IMPLEMENTATION_ADDRESS",
+  accessPassNFTImplementation: "ACCESS_PASS_NFT_IMPLEMENTATION_ADDRESS",
+  multicall3: "MULTICALL3_ADDRESS",
+};
+
+// Unsuffixed variables read before the registry existed; they would apply to
+// every network at once, so they are rejected rather than silently ignored
+const LEGACY_ENV_KEYS = [
+  "EVENT_FACTORY_ADDRESS",
+  "MARKETPLACE_ADDRESS",
+  "FACTORY_START_BLOCK",
+  "MARKETPLACE_START_BLOCK",
+];
+
+/**
+ * Resolve a network's deployment, applying optional per-network env overrides
+ * (e.g. EVENT_FACTORY_ADDRESS_QIE_TESTNET, FACTORY_START_BLOCK_QIE_TESTNET,
+ * CHAIN_ID_QIE_TESTNET) and validating the result. Start blocks the registry
+ * does not record must be given through the env.
+ */
+export function loadDeployment(
+  network: NetworkName,
+  env: Record<string, string | undefined> = {},
+): LoadedDeployment {
+  const base = deployments[network];
+  if (!base) {
+    throw new DeploymentConfigError(
+      `Unknown network "${network}", expected one of: ${NETWORKS.join(", ")}`,
+    );
+  }
+
+  const suffix = envSuffix(network);
+  for (const key of LEGACY_ENV_KEYS) {
+    if (env[key] !== undefined && env[key] !== "") {
+      throw new DeploymentConfigError(
+        `${key} is no longer read; set ${key}_${suffix} (or the variable ` +
+          `for the matching network) instead`,
+      );
+    }
+  }
+  const read = (key: string) => {
+    const value = env[`${key}_${suffix}`];
+    return value === undefined || value === "" ? undefined : value.trim();
+  };
+
+  const contracts = { ...base.contracts } as DeploymentContracts;
+  for (const [name, key] of Object.entries(CONTRACT_ENV_KEYS)) {
+    const override = read(key);
+    if (override !== undefined) {
+      assertAddress(override, `${key}_${suffix}`);
+      contracts[name as keyof DeploymentContracts] = override;
+    }
+  }
+
+  const chainIdOverride = read("CHAIN_ID");
+  const chainId =
+    chainIdOverride === undefined ? base.chain.id : Number(chainIdOverride);
+  assertChainId(chainId, `CHAIN_ID_${suffix}`);
+
+  const startBlock = (name: keyof Deployment["startBlocks"], key: string) => {
+    const override = read(key);
+    if (override !== undefined) {
+      return parseBlock(override, `${key}_${suffix}`);
+    }
+    const recorded = base.startBlocks[name];
+    if (recorded === null) {
+      throw new DeploymentConfigError(
+        `${key}_${suffix} must be set: no deployment block is recorded ` +
+          `for ${network}.${name}`,
+      );
+    }
+    return recorded;
+  };
+
+  return validateDeployment({
+    network,
+    chain: { ...base.chain, id: chainId },
+    contracts,
+    startBlocks: {
+      eventFactory: startBlock("eventFactory", "FACTORY_START_BLOCK"),
+      marketplace: startBlock("marketplace", "MARKETPLACE_START_BLOCK"),
+    },
+  }) as LoadedDeployment;
+}
+
+// Look up a deployment by chain id (e.g. from a connected wallet or client)
+export function getDeployment(chainId: number): Deployment {
+  const all = Object.values(deployments);
+  const deployment = all.find((candidate) => candidate.chain.id === chainId);
+  if (!deployment) {
+    const known = all.map((candidate) => candidate.chain.id).join(", ");
+    throw new DeploymentConfigError(
+      `No deployment registered for chain ${chainId}, expected one of: ${known}`,
+    );
+  }
+  return deployment;
+}
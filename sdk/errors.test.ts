@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import {
+  BaseError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  encodeErrorResult,
+  parseEther,
+  RawContractError,
+} from "viem";
+import { EventAbi } from "./abis";
+import {
+  CONTRACT_ERRORS_ABI,
+  decodeSimplrError,
+  en,
+  errorCatalogs,
+  type SimplrErrorCode,
+} from "./errors";
+
+const holder = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+// English copy for codes whose template does not depend on args or context
+function englishMessage(code: SimplrErrorCode): string {
+  const template = en[code];
+  if (typeof template === "function") {
+    throw new Error(`${code} has a dynamic template`);
+  }
+  return template.message;
+}
+
+function revertData(errorName: string, args: readonly unknown[] = []) {
+  return encodeErrorResult({ abi: CONTRACT_ERRORS_ABI, errorName, args });
+}
+
+describe("decodeSimplrError", () => {
+  test("decodes raw revert data", () => {
+    const decoded = decodeSimplrError(revertData("SignatureExpired"));
+    expect(decoded.code).toBe("SignatureExpired");
+    expect(decoded.errorName).toBe("SignatureExpired");
+    expect(decoded.message).toBe(englishMessage("SignatureExpired"));
+  });
+
+  test("decodes a revert wrapped in a viem error chain", () => {
+    const data = revertData("InsufficientTickets");
+    const error = new ContractFunctionExecutionError(
+      new RawContractError({ data }),
+      { abi: [], functionName: "redeemTicket" },
+    );
+    expect(decodeSimplrError(error).code).toBe("InsufficientTickets");
+  });
+
+  test("uses errors already decoded against the caller's ABI", () => {
+    const error = new ContractFunctionExecutionError(
+      new ContractFunctionRevertedError({
+        abi: EventAbi,
+        data: revertData("NotGatekeeper"),
+        functionName: "redeemTicket",
+      }),
+      {
+        abi: EventAbi,
+        functionName: "redeemTicket",
+        args: [holder, 2n, 0n, "0x"],
+      },
+    );
+    expect(decodeSimplrError(error).code).toBe("NotGatekeeper");
+  });
+
+  test("passes revert args to the template", () => {
+    const decoded = decodeSimplrError(
+      revertData("ERC1155InsufficientBalance", [holder, 1n, 3n, 2n]),
+    );
+    expect(decoded.code).toBe("ERC1155InsufficientBalance");
+    expect(decoded.args).toEqual([holder, 1n, 3n, 2n]);
+    expect(decoded.action).toContain("reduce quantity to 1");
+  });
+
+  test("uses the caller's context in suggestions", () => {
+    const decoded = decodeSimplrError(revertData("IncorrectPayment"), {
+      context: { expectedPayment: parseEther("0.02") },
+    });
+    expect(decoded.action).toBe("Send exactly 0.02 QIE.");
+  });
+
+  test("falls back to English for missing locales and codes", () => {
+    errorCatalogs.xx = {
+      SignatureExpired: { message: "xx", cause: "xx", action: "xx" },
+    };
+    try {
+      const data = revertData("SignatureExpired");
+      expect(decodeSimplrError(data, { locale: "xx" }).message).toBe("xx");
+      expect(
+        decodeSimplrError(revertData("InvalidSignature"), { locale: "xx" })
+          .message,
+      ).toBe(englishMessage("InvalidSignature"));
+      expect(decodeSimplrError(data, { locale: "yy" }).message).toBe(
+        englishMessage("SignatureExpired"),
+      );
+    } finally {
+      delete errorCatalogs.xx;
+    }
+  });
+
+  test("maps anything unrecognized to Unknown", () => {
+    for (const error of [
+      new Error("user rejected"),
+      new BaseError("execution reverted"),
+      "0xdeadbeef",
+      "not hex",
+      undefined,
+    ]) {
+      const decoded = decodeSimplrError(error);
+      expect(decoded.code).toBe("Unknown");
+      expect(decoded.errorName).toBeNull();
+      expect(decoded.message).toBe(englishMessage("Unknown"));
+    }
+  });
+});
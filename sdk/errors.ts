@@ -0,0 +1,389 @@
+import {
+  type Abi,
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  formatEther,
+  type Hex,
+  isHex,
+  RawContractError,
+} from "viem";
+import {
+  AccessPassNFTAbi,
+  EventAbi,
+  EventFactoryAbi,
+  MarketplaceAbi,
+  SimplrErrorsErrorsAbi,
+} from "./abis";
+
+// Every custom error the four contracts (or their OpenZeppelin bases) can revert with
+export const CONTRACT_ERRORS_ABI = [
+  ...SimplrErrorsErrorsAbi,
+  ...EventAbi,
+  ...EventFactoryAbi,
+  ...MarketplaceAbi,
+  ...AccessPassNFTAbi,
+].filter(
+  (item, index, all) =>
+    item.type === "error" &&
+    all.findIndex(
+      (other) => other.type === "error" && other.name === item.name,
+    ) === index,
+) as Abi;
+
+export type SimplrErrorCode =
+  // SimplrErrors
+  | "TierNotActive"
+  | "TierDoesNotExist"
+  | "TierAlreadyExists"
+  | "ExceedsMaxSupply"
+  | "IncorrectPayment"
+  | "CannotReduceBelowSupply"
+  | "SignatureExpired"
+  | "InvalidSignature"
+  | "NotGatekeeper"
+  | "InsufficientTickets"
+  | "AlreadyInitialized"
+  | "ZeroQuantity"
+  | "ZeroMaxSupply"
+  | "TransferLocked"
+  | "NotAuthorizedMinter"
+  | "EventContractAlreadySet"
+  | "ListingDoesNotExist"
+  | "ListingNotActive"
+  | "ListingExpired"
+  | "InsufficientQuantity"
+  | "NotSeller"
+  | "InvalidExpiration"
+  | "ZeroPrice"
+  | "TransferFailed"
+  | "ZeroAddress"
+  // OpenZeppelin errors users can realistically hit
+  | "OwnableUnauthorizedAccount"
+  | "EnforcedPause"
+  | "ERC1155InsufficientBalance"
+  | "ERC1155MissingApprovalForAll"
+  | "ECDSAInvalidSignature"
+  | "ECDSAInvalidSignatureLength"
+  | "ERC2981InvalidDefaultRoyalty"
+  | "ERC721NonexistentToken"
+  | "ERC721InsufficientApproval"
+  // Anything else: unknown custom error, require string, or not a revert
+  | "Unknown";
+
+// Values the caller already knows that make suggestions concrete
+export type ErrorContext = {
+  // maxSupply - sold for the tier being bought
+  remainingSupply?: bigint;
+  // Listing quantity still available
+  availableQuantity?: bigint;
+  // Expected msg.value in wei
+  expectedPayment?: bigint;
+  // AccessPassNFT transferUnlockTime, unix seconds
+  unlockTime?: bigint;
+};
+
+export type ErrorDetails = {
+  // Short, user-facing
+  message: string;
+  // What most likely led to the revert
+  cause: string;
+  // What the user can do about it
+  action: string;
+};
+
+export type ErrorTemplate =
+  | ErrorDetails
+  | ((input: {
+      args: readonly unknown[];
+      context: ErrorContext;
+    }) => ErrorDetails);
+
+export type ErrorCatalog = Record<SimplrErrorCode, ErrorTemplate>;
+
+export type DecodedSimplrError = ErrorDetails & {
+  code: SimplrErrorCode;
+  // Raw error name, also set for errors outside SimplrErrorCode
+  errorName: string | null;
+  args: readonly unknown[];
+};
+
+export const en: ErrorCatalog = {
+  TierNotActive: {
+    message: "This ticket tier is not on sale.",
+    cause: "The organizer has paused or not yet opened sales for the tier.",
+    action: "Pick another tier or try again once sales reopen.",
+  },
+  TierDoesNotExist: {
+    message: "This ticket tier does not exist.",
+    cause: "The tier id is wrong or belongs to a different event.",
+    action: "Refresh the event and select a listed tier.",
+  },
+  TierAlreadyExists: {
+    message: "A tier with this id already exists.",
+    cause: "Tier ids must be unique within an event.",
+    action: "Choose an unused tier id or update the existing tier.",
+  },
+  ExceedsMaxSupply: ({ context }) => ({
+    message: "Not enough tickets left in this tier.",
+    cause: "The requested quantity is more than the tier's remaining supply.",
+    action:
+      context.remainingSupply === undefined
+        ? "Reduce the quantity and try again."
+        : context.remainingSupply === 0n
+          ? "This tier is sold out; pick another tier."
+          : `Reduce quantity to ${context.remainingSupply} or fewer.`,
+  }),
+  IncorrectPayment: ({ context }) => ({
+    message: "The payment amount is incorrect.",
+    cause: "The value sent does not match price times quantity.",
+    action:
+      context.expectedPayment === undefined
+        ? "Refresh the price and try again."
+        : `Send exactly ${formatEther(context.expectedPayment)} QIE.`,
+  }),
+  CannotReduceBelowSupply: {
+    message: "Max supply cannot go below tickets already sold.",
+    cause: "The new max supply is lower than the tier's current supply.",
+    action: "Set a max supply at least equal to the tickets sold.",
+  },
+  SignatureExpired: {
+    message: "This ticket QR code has expired.",
+    cause: "The redemption deadline passed before it was submitted.",
+    action: "Ask the ticket holder to generate a fresh QR code.",
+  },
+  InvalidSignature: {
+    message: "This ticket QR code is not valid.",
+    cause:
+      "The code was already used, signed for another event or tier, " +
+      "or not signed by the ticket holder.",
+    action: "Ask the ticket holder to generate a fresh QR code.",
+  },
+  NotGatekeeper: {
+    message: "This device is not allowed to check in tickets.",
+    cause: "The scanner wallet is not a gatekeeper for this event.",
+    action: "Ask the event organizer to add this wallet as a gatekeeper.",
+  },
+  InsufficientTickets: {
+    message: "The holder has no ticket for this tier.",
+    cause: "The ticket was already redeemed, sold or transferred.",
+    action: "Check the holder's tickets and use a tier they still own.",
+  },
+  AlreadyInitialized: {
+    message: "This contract is already set up.",
+    cause: "Initialization can only run once.",
+    action: "No action needed.",
+  },
+  ZeroQuantity: {
+    message: "Quantity must be at least 1.",
+    cause: "A quantity of zero was submitted.",
+    action: "Enter a quantity of 1 or more.",
+  },
+  ZeroMaxSupply: {
+    message: "Max supply must be at least 1.",
+    cause: "A tier was configured with a max supply of zero.",
+    action: "Enter a max supply of 1 or more.",
+  },
+  TransferLocked: ({ context }) => ({
+    message: "This access pass cannot be transferred yet.",
+    cause: "Access passes are locked for a period after check-in.",
+    action:
+      context.unlockTime === undefined
+        ? "Try again once the transfer lock ends."
+        : `Try again after ${new Date(
+            Number(context.unlockTime) * 1000,
+          ).toISOString()}.`,
+  }),
+  NotAuthorizedMinter: {
+    message: "Only the event contract can mint access passes.",
+    cause: "Access passes are minted by redeeming a ticket.",
+    action: "Redeem a ticket at the event instead.",
+  },
+  EventContractAlreadySet: {
+    message: "This access pass collection is already linked to an event.",
+    cause: "The event contract can only be set once.",
+    action: "No action needed.",
+  },
+  ListingDoesNotExist: {
+    message: "This listing does not exist.",
+    cause: "The listing id is wrong.",
+    action: "Refresh the marketplace and pick a listing.",
+  },
+  ListingNotActive: {
+    message: "This listing is no longer available.",
+    cause: "The seller cancelled it or it sold out.",
+    action: "Pick another listing.",
+  },
+  ListingExpired: {
+    message: "This listing has expired.",
+    cause: "The listing's expiration time has passed.",
+    action: "Pick another listing, or relist if you are the seller.",
+  },
+  InsufficientQuantity: ({ context }) => ({
+    message: "Not enough tickets left in this listing.",
+    cause: "The requested quantity is more than the listing has remaining.",
+    action:
+      context.availableQuantity === undefined
+        ? "Reduce the quantity and try again."
+        : `Reduce quantity to ${context.availableQuantity} or fewer.`,
+  }),
+  NotSeller: {
+    message: "Only the seller can change this listing.",
+    cause: "The connected wallet did not create the listing.",
+    action: "Switch to the wallet that created the listing.",
+  },
+  InvalidExpiration: {
+    message: "The listing expiration must be in the future.",
+    cause: "The expiration time is at or before the current block time.",
+    action: "Choose a later expiration time.",
+  },
+  ZeroPrice: {
+    message: "Price must be greater than zero.",
+    cause: "A price of zero was submitted.",
+    action: "Enter a price above zero.",
+  },
+  TransferFailed: {
+    message: "A payment transfer failed.",
+    cause: "The recipient contract rejected the native token transfer.",
+    action: "Use a recipient address that can receive QIE.",
+  },
+  ZeroAddress: {
+    message: "An address is missing.",
+    cause: "The zero address was passed where a real address is required.",
+    action: "Enter a valid address.",
+  },
+  OwnableUnauthorizedAccount: {
+    message: "Only the owner can do this.",
+    cause: "The connected wallet is not the contract owner.",
+    action: "Switch to the organizer's wallet.",
+  },
+  EnforcedPause: {
+    message: "The marketplace is temporarily paused.",
+    cause: "Trading has been paused by the marketplace owner.",
+    action: "Try again once the marketplace is unpaused.",
+  },
+  ERC1155InsufficientBalance: ({ args }) => ({
+    message: "Not enough tickets in the wallet.",
+    cause: "The seller no longer holds the tickets being transferred.",
+    action:
+      typeof args[1] === "bigint"
+        ? `The wallet holds ${args[1]}; reduce quantity to ${args[1]} or fewer.`
+        : "Reduce the quantity and try again.",
+  }),
+  ERC1155MissingApprovalForAll: {
+    message: "The marketplace is not approved to move these tickets.",
+    cause: "The seller revoked or never granted marketplace approval.",
+    action: "Approve the marketplace for the event's tickets and retry.",
+  },
+  ECDSAInvalidSignature: {
+    message: "This ticket QR code is not valid.",
+    cause: "The signature is malformed.",
+    action: "Ask the ticket holder to generate a fresh QR code.",
+  },
+  ECDSAInvalidSignatureLength: {
+    message: "This ticket QR code is not valid.",
+    cause: "The signature was truncated, often by a damaged or partial scan.",
+    action: "Scan the QR code again.",
+  },
+  ERC2981InvalidDefaultRoyalty: {
+    message: "The royalty is too high.",
+    cause: "Royalty basis points exceed 10000 (100%).",
+    action: "Enter a royalty of at most 10000 basis points.",
+  },
+  ERC721NonexistentToken: {
+    message: "This access pass does not exist.",
+    cause: "The token id is wrong or the pass was never minted.",
+    action: "Check the access pass id.",
+  },
+  ERC721InsufficientApproval: {
+    message: "You are not allowed to move this access pass.",
+    cause: "The connected wallet neither owns nor is approved for the pass.",
+    action: "Switch to the wallet that owns the pass.",
+  },
+  Unknown: {
+    message: "The transaction failed.",
+    cause: "The contract rejected the transaction for an unrecognized reason.",
+    action: "Try again, and contact support if it keeps failing.",
+  },
+};
+
+// Register more locales here; missing codes fall back to English
+export const errorCatalogs: Record<string, Partial<ErrorCatalog>> = { en };
+
+const KNOWN_CODES = new Set(Object.keys(en));
+
+type Revert = { errorName: string; args: readonly unknown[] };
+
+function decodeRevertData(data: Hex): Revert | null {
+  try {
+    const { errorName, args } = decodeErrorResult({
+      abi: CONTRACT_ERRORS_ABI,
+      data,
+    });
+    return { errorName, args: args ?? [] };
+  } catch {
+    return null;
+  }
+}
+
+// Pull the custom error out of a viem error chain or raw revert data
+function extractRevert(error: unknown): Revert | null {
+  if (typeof error === "string") {
+    return isHex(error) ? decodeRevertData(error) : null;
+  }
+  if (!(error instanceof BaseError)) {
+    return null;
+  }
+
+  const reverted = error.walk(
+    (cause) => cause instanceof ContractFunctionRevertedError,
+  );
+  if (reverted instanceof ContractFunctionRevertedError) {
+    // data is only set when the calling ABI knew the error
+    if (reverted.data?.errorName) {
+      return {
+        errorName: reverted.data.errorName,
+        args: reverted.data.args ?? [],
+      };
+    }
+    if (reverted.raw) {
+      return decodeRevertData(reverted.raw);
+    }
+  }
+
+  const raw = error.walk((cause) => cause instanceof RawContractError);
+  if (raw instanceof RawContractError && typeof raw.data === "string") {
+    return decodeRevertData(raw.data);
+  }
+  return null;
+}
+
+/**
+ * Map a revert from Event, Marketplace, AccessPassNFT or EventFactory to a
+ * typed code and user-facing copy. Accepts any thrown viem error or raw
+ * revert data; anything unrecognized maps to "Unknown".
+ */
+export function decodeSimplrError(
+  error: unknown,
+  {
+    locale = "en",
+    context = {},
+  }: { locale?: string; context?: ErrorContext } = {},
+): DecodedSimplrError {
+  const revert = extractRevert(error);
+  const code = (
+    revert && KNOWN_CODES.has(revert.errorName) ? revert.errorName : "Unknown"
+  ) as SimplrErrorCode;
+  const args = revert?.args ?? [];
+
+  const template = errorCatalogs[locale]?.[code] ?? en[code];
+  const details =
+    typeof template === "function" ? template({ args, context }) : template;
+
+  return {
+    code,
+    errorName: revert?.errorName ?? null,
+    args,
+    ...details,
+  };
+}
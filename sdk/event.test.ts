@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { parseEther } from "viem";
+import { buyTickets } from "./event";
+import { mockClient } from "./testClient";
+
+const buyer = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const eventAddress = "0x75537828f2ce51be7289709686A69CbFDbB714F1";
+
+describe("buyTickets", () => {
+  test("pays the tier price times quantity", async () => {
+    const { client, sent } = mockClient(buyer, {
+      reads: {
+        getTier: ({ args: [tierId] }) => ({
+          price: tierId === 2n ? parseEther("0.25") : parseEther("1"),
+          maxSupply: 100n,
+          tierName: "VIP",
+          active: true,
+        }),
+      },
+    });
+
+    const result = await buyTickets(client, {
+      eventAddress,
+      tierId: 2n,
+      quantity: 3n,
+    });
+
+    expect(result.totalPaid).toBe(parseEther("0.75"));
+    expect(result.receipt.status).toBe("success");
+    expect(sent).toEqual([
+      {
+        to: eventAddress,
+        functionName: "buyTickets",
+        args: [2n, 3n],
+        value: parseEther("0.75"),
+      },
+    ]);
+  });
+
+  test("sends nothing for a free tier", async () => {
+    const { client, sent } = mockClient(buyer, {
+      reads: {
+        getTier: () => ({
+          price: 0n,
+          maxSupply: 100n,
+          tierName: "Free",
+          active: true,
+        }),
+      },
+    });
+
+    const result = await buyTickets(client, {
+      eventAddress,
+      tierId: 0n,
+      quantity: 5n,
+    });
+
+    expect(result.totalPaid).toBe(0n);
+    expect(sent.map((call) => call.value)).toEqual([0n]);
+  });
+});
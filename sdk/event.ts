@@ -0,0 +1,231 @@
+import type { Hex } from "viem";
+import {
+  readContract,
+  signTypedData,
+  simulateContract,
+  writeContract,
+} from "viem/actions";
+import { EventAbi } from "./abis";
+import type { Address } from "./deployments";
+import {
+  requireAccount,
+  resolveChainId,
+  type SdkClient,
+  waitForReceipt,
+  type WriteResult,
+} from "./utils";
+
+// Must match Event.initialize: __EIP712_init("EventTicket", "1")
+export const REDEMPTION_DOMAIN = { name: "EventTicket", version: "1" } as const;
+
+export const REDEMPTION_TYPES = {
+  RedeemTicket: [
+    { name: "ticketHolder", type: "address" },
+    { name: "tierId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+export type Tier = {
+  price: bigint;
+  maxSupply: bigint;
+  tierName: string;
+  active: boolean;
+};
+
+export type SignedRedemption = {
+  eventAddress: Address;
+  ticketHolder: Address;
+  tierId: bigint;
+  nonce: bigint;
+  deadline: bigint;
+  signature: Hex;
+};
+
+export async function getTier(
+  client: SdkClient,
+  eventAddress: Address,
+  tierId: bigint,
+): Promise<Tier> {
+  return readContract(client, {
+    address: eventAddress,
+    abi: EventAbi,
+    functionName: "getTier",
+    args: [tierId],
+  });
+}
+
+export async function getTicketBalance(
+  client: SdkClient,
+  eventAddress: Address,
+  holder: Address,
+  tierId: bigint,
+): Promise<bigint> {
+  return readContract(client, {
+    address: eventAddress,
+    abi: EventAbi,
+    functionName: "balanceOf",
+    args: [holder, tierId],
+  });
+}
+
+// Buy primary tickets; msg.value is the tier price times quantity read at call time
+export async function buyTickets(
+  client: SdkClient,
+  {
+    eventAddress,
+    tierId,
+    quantity,
+  }: { eventAddress: Address; tierId: bigint; quantity: bigint },
+): Promise<WriteResult & { totalPaid: bigint }> {
+  const account = requireAccount(client);
+  const tier = await getTier(client, eventAddress, tierId);
+  const value = tier.price * quantity;
+
+  const { request } = await simulateContract(client, {
+    address: eventAddress,
+    abi: EventAbi,
+    functionName: "buyTickets",
+    args: [tierId, quantity],
+    value,
+    account,
+    chain: client.chain,
+  });
+  const result = await waitForReceipt(
+    client,
+    await writeContract(client, request),
+  );
+  return { ...result, totalPaid: value };
+}
+
+// ==================== REDEMPTION ====================
+
+export async function getRedemptionNonce(
+  client: SdkClient,
+  eventAddress: Address,
+  ticketHolder: Address,
+): Promise<bigint> {
+  return readContract(client, {
+    address: eventAddress,
+    abi: EventAbi,
+    functionName: "nonces",
+    args: [ticketHolder],
+  });
+}
+
+/**
+ * Sign a RedeemTicket message as the ticket holder (the client's account).
+ * The nonce defaults to the holder's current on-chain nonce; the resulting
+ * payload is what a gatekeeper passes to redeemTicket.
+ */
+export async function signRedemption(
+  client: SdkClient,
+  {
+    eventAddress,
+    tierId,
+    deadline,
+    nonce,
+  }: {
+    eventAddress: Address;
+    tierId: bigint;
+    // Unix seconds; keep it short since anyone holding the payload can submit it
+    deadline: bigint;
+    nonce?: bigint;
+  },
+): Promise<SignedRedemption> {
+  const account = requireAccount(client);
+  const ticketHolder = account.address;
+  const [chainId, currentNonce] = await Promise.all([
+    resolveChainId(client),
+    nonce ?? getRedemptionNonce(client, eventAddress, ticketHolder),
+  ]);
+
+  const signature = await signTypedData(client, {
+    account,
+    domain: { ...REDEMPTION_DOMAIN, chainId, verifyingContract: eventAddress },
+    types: REDEMPTION_TYPES,
+    primaryType: "RedeemTicket",
+    message: { ticketHolder, tierId, nonce: currentNonce, deadline },
+  });
+
+  return {
+    eventAddress,
+    ticketHolder,
+    tierId,
+    nonce: currentNonce,
+    deadline,
+    signature,
+  };
+}
+
+// Submit a signed redemption; the client's account must be a gatekeeper
+export async function redeemTicket(
+  client: SdkClient,
+  redemption: Omit<SignedRedemption, "nonce">,
+): Promise<WriteResult> {
+  const account = requireAccount(client);
+  const { request } = await simulateContract(client, {
+    address: redemption.eventAddress,
+    abi: EventAbi,
+    functionName: "redeemTicket",
+    args: [
+      redemption.ticketHolder,
+      redemption.tierId,
+      redemption.deadline,
+      redemption.signature,
+    ],
+    account,
+    chain: client.chain,
+  });
+  return waitForReceipt(client, await writeContract(client, request));
+}
+
+// ==================== GATEKEEPERS ====================
+
+export async function isGatekeeper(
+  client: SdkClient,
+  eventAddress: Address,
+  account: Address,
+): Promise<boolean> {
+  return readContract(client, {
+    address: eventAddress,
+    abi: EventAbi,
+    functionName: "isGatekeeper",
+    args: [account],
+  });
+}
+
+// Owner only
+export async function addGatekeeper(
+  client: SdkClient,
+  eventAddress: Address,
+  gatekeeper: Address,
+): Promise<WriteResult> {
+  const { request } = await simulateContract(client, {
+    address: eventAddress,
+    abi: EventAbi,
+    functionName: "addGatekeeper",
+    args: [gatekeeper],
+    account: requireAccount(client),
+    chain: client.chain,
+  });
+  return waitForReceipt(client, await writeContract(client, request));
+}
+
+// Owner only
+export async function removeGatekeeper(
+  client: SdkClient,
+  eventAddress: Address,
+  gatekeeper: Address,
+): Promise<WriteResult> {
+  const { request } = await simulateContract(client, {
+    address: eventAddress,
+    abi: EventAbi,
+    functionName: "removeGatekeeper",
+    args: [gatekeeper],
+    account: requireAccount(client),
+    chain: client.chain,
+  });
+  return waitForReceipt(client, await writeContract(client, request));
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { parseEther } from "viem";
+import { createEvent } from "./eventFactory";
+import { mockClient } from "./testClient";
+
+const creator = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const factory = "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0";
+const eventAddress = "0x75537828f2ce51be7289709686A69CbFDbB714F1";
+const accessPassNFT = "0xE451980132E65465d0a498c53f0b5227326Dd73F";
+
+const config = {
+  name: "Launch Party",
+  symbol: "LP",
+  baseURI: "ipfs://tickets/",
+  royaltyBps: 500n,
+};
+const tiers = [
+  {
+    tierId: 1n,
+    tierName: "General",
+    price: parseEther("0.1"),
+    maxSupply: 100n,
+  },
+];
+
+describe("createEvent", () => {
+  test("returns the clone addresses from EventCreated", async () => {
+    const { client, sent } = mockClient(creator, {
+      reads: { createEvent: () => eventAddress },
+      logs: () => [
+        {
+          address: factory,
+          eventName: "EventCreated",
+          args: {
+            eventAddress,
+            creator,
+            name: config.name,
+            eventId: 3n,
+            accessPassNFT,
+          },
+        },
+      ],
+    });
+
+    const result = await createEvent(client, {
+      config,
+      tiers,
+      gatekeepers: [creator],
+      factory,
+    });
+
+    expect(sent).toEqual([
+      {
+        to: factory,
+        functionName: "createEvent",
+        args: [config, tiers, [creator]],
+        value: 0n,
+      },
+    ]);
+    expect(result.eventAddress).toBe(eventAddress);
+    expect(result.accessPassNFT).toBe(accessPassNFT);
+    expect(result.eventId).toBe(3n);
+  });
+
+  test("fails when the receipt has no EventCreated log", async () => {
+    const { client } = mockClient(creator, {
+      reads: { createEvent: () => eventAddress },
+    });
+
+    await expect(
+      createEvent(client, { config, tiers, factory }),
+    ).rejects.toThrow("No EventCreated log");
+  });
+});
@@ -0,0 +1,105 @@
+import { parseEventLogs } from "viem";
+import { readContract, simulateContract, writeContract } from "viem/actions";
+import { EventFactoryAbi } from "./abis";
+import type { Address } from "./deployments";
+import {
+  requireAccount,
+  resolveContract,
+  SdkError,
+  type SdkClient,
+  waitForReceipt,
+  type WriteResult,
+} from "./utils";
+
+export type EventConfig = {
+  name: string;
+  symbol: string;
+  baseURI: string;
+  // Secondary-sale royalty in basis points (max 10000)
+  royaltyBps: bigint;
+};
+
+export type TierConfig = {
+  tierId: bigint;
+  tierName: string;
+  price: bigint;
+  maxSupply: bigint;
+};
+
+export type CreateEventParams = {
+  config: EventConfig;
+  tiers: TierConfig[];
+  gatekeepers?: Address[];
+  // Defaults to the registry's EventFactory for the client's chain
+  factory?: Address;
+};
+
+export type CreateEventResult = WriteResult & {
+  eventAddress: Address;
+  accessPassNFT: Address;
+  eventId: bigint;
+};
+
+// Deploy a new Event clone (and its AccessPassNFT) owned by the client's account
+export async function createEvent(
+  client: SdkClient,
+  { config, tiers, gatekeepers = [], factory }: CreateEventParams,
+): Promise<CreateEventResult> {
+  const account = requireAccount(client);
+  const address = await resolveContract(client, "eventFactory", factory);
+
+  const { request } = await simulateContract(client, {
+    address,
+    abi: EventFactoryAbi,
+    functionName: "createEvent",
+    args: [config, tiers, gatekeepers],
+    account,
+    chain: client.chain,
+  });
+  const result = await waitForReceipt(
+    client,
+    await writeContract(client, request),
+  );
+
+  const [created] = parseEventLogs({
+    abi: EventFactoryAbi,
+    eventName: "EventCreated",
+    logs: result.receipt.logs,
+  });
+  if (!created) {
+    throw new SdkError(`No EventCreated log in transaction ${result.hash}`);
+  }
+
+  return {
+    ...result,
+    eventAddress: created.args.eventAddress,
+    accessPassNFT: created.args.accessPassNFT,
+    eventId: created.args.eventId,
+  };
+}
+
+export async function getEventsByCreator(
+  client: SdkClient,
+  creator: Address,
+  factory?: Address,
+): Promise<readonly Address[]> {
+  return readContract(client, {
+    address: await resolveContract(client, "eventFactory", factory),
+    abi: EventFactoryAbi,
+    functionName: "getEventsByCreator",
+    args: [creator],
+  });
+}
+
+export async function isEvent(
+  client: SdkClient,
+  eventAddress: Address,
+  factory?: Address,
+): Promise<boolean> {
+  return readContract(client, {
+    address: await resolveContract(client, "eventFactory", factory),
+    abi: EventFactoryAbi,
+    functionName: "isEvent",
+    args: [eventAddress],
+  });
+}
@@ -0,0 +1,9 @@
+export * from "./abis";
+export * from "./accessPassNFT";
+export * from "./deployments";
+export * from "./errors";
+export * from "./event";
+export * from "./eventFactory";
+export * from "./marketplace";
+export * from "./qr";
+export * from "./utils";
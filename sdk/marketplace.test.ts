@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import { parseEther } from "viem";
+import { buyListing, createListing } from "./marketplace";
+import { type MockCall, mockClient } from "./testClient";
+
+const seller = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const buyer = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const eventAddress = "0x75537828f2ce51be7289709686A69CbFDbB714F1";
+const marketplace = "0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9";
+
+const listingParams = {
+  eventAddress,
+  tierId: 1n,
+  quantity: 2n,
+  pricePerUnit: parseEther("0.5"),
+  expirationTime: 1_700_000_000n,
+  marketplace,
+} as const;
+
+// Emits ListingCreated #7 for a createListing call
+function listingLogs(call: MockCall) {
+  if (call.functionName !== "createListing") {
+    return [];
+  }
+  const [eventContract, tokenId, quantity, pricePerUnit, expirationTime] =
+    call.args;
+  return [
+    {
+      address: marketplace,
+      eventName: "ListingCreated",
+      args: {
+        listingId: 7n,
+        seller,
+        eventContract,
+        tokenId,
+        quantity,
+        pricePerUnit,
+        expirationTime,
+      },
+    },
+  ] as const;
+}
+
+describe("createListing", () => {
+  test("approves the marketplace first when needed", async () => {
+    const { client, sent } = mockClient(seller, {
+      reads: { isApprovedForAll: () => false, createListing: () => 7n },
+      logs: (call) => [...listingLogs(call)],
+    });
+
+    const result = await createListing(client, listingParams);
+
+    expect(sent).toEqual([
+      {
+        to: eventAddress,
+        functionName: "setApprovalForAll",
+        args: [marketplace, true],
+        value: 0n,
+      },
+      {
+        to: marketplace,
+        functionName: "createListing",
+        args: [eventAddress, 1n, 2n, parseEther("0.5"), 1_700_000_000n],
+        value: 0n,
+      },
+    ]);
+    expect(result.listingId).toBe(7n);
+    expect(result.approval?.receipt.status).toBe("success");
+  });
+
+  test("lists directly once the marketplace is approved", async () => {
+    const isApprovedForAll = ({ args }: MockCall) => {
+      expect(args).toEqual([seller, marketplace]);
+      return true;
+    };
+    const { client, sent } = mockClient(seller, {
+      reads: { isApprovedForAll, createListing: () => 7n },
+      logs: (call) => [...listingLogs(call)],
+    });
+
+    const result = await createListing(client, listingParams);
+
+    expect(sent.map((call) => call.functionName)).toEqual(["createListing"]);
+    expect(result.listingId).toBe(7n);
+    expect(result.approval).toBeNull();
+  });
+
+  test("fails when the receipt has no ListingCreated log", async () => {
+    const { client } = mockClient(seller, {
+      reads: { isApprovedForAll: () => true, createListing: () => 7n },
+    });
+
+    await expect(createListing(client, listingParams)).rejects.toThrow(
+      "No ListingCreated log",
+    );
+  });
+});
+
+describe("buyListing", () => {
+  test("pays the listing's price per unit times quantity", async () => {
+    const { client, sent } = mockClient(buyer, {
+      reads: {
+        getListing: () => ({
+          seller,
+          eventContract: eventAddress,
+          tokenId: 1n,
+          quantity: 5n,
+          pricePerUnit: parseEther("0.2"),
+          expirationTime: 1_700_000_000n,
+          active: true,
+        }),
+      },
+    });
+
+    const result = await buyListing(client, {
+      listingId: 7n,
+      quantity: 3n,
+      marketplace,
+    });
+
+    expect(result.totalPaid).toBe(parseEther("0.6"));
+    expect(sent).toEqual([
+      {
+        to: marketplace,
+        functionName: "buyListing",
+        args: [7n, 3n],
+        value: parseEther("0.6"),
+      },
+    ]);
+  });
+});
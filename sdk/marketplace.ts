@@ -0,0 +1,188 @@
+import { parseEventLogs } from "viem";
+import { readContract, simulateContract, writeContract } from "viem/actions";
+import { EventAbi, MarketplaceAbi } from "./abis";
+import type { Address } from "./deployments";
+import {
+  requireAccount,
+  resolveContract,
+  SdkError,
+  type SdkClient,
+  waitForReceipt,
+  type WriteResult,
+} from "./utils";
+
+export type Listing = {
+  seller: Address;
+  eventContract: Address;
+  tokenId: bigint;
+  quantity: bigint;
+  pricePerUnit: bigint;
+  expirationTime: bigint;
+  active: boolean;
+};
+
+export async function getListing(
+  client: SdkClient,
+  listingId: bigint,
+  marketplace?: Address,
+): Promise<Listing> {
+  return readContract(client, {
+    address: await resolveContract(client, "marketplace", marketplace),
+    abi: MarketplaceAbi,
+    functionName: "getListing",
+    args: [listingId],
+  });
+}
+
+export type CreateListingParams = {
+  eventAddress: Address;
+  tierId: bigint;
+  quantity: bigint;
+  pricePerUnit: bigint;
+  // Unix seconds
+  expirationTime: bigint;
+  // Defaults to the registry's Marketplace for the client's chain
+  marketplace?: Address;
+};
+
+export type CreateListingResult = WriteResult & {
+  listingId: bigint;
+  // Set when the marketplace had to be approved first
+  approval: WriteResult | null;
+};
+
+/**
+ * List tickets for resale. The marketplace does not escrow tickets; it moves
+ * them from the seller on purchase, so it is approved via setApprovalForAll
+ * on the Event contract first when needed.
+ */
+export async function createListing(
+  client: SdkClient,
+  params: CreateListingParams,
+): Promise<CreateListingResult> {
+  const account = requireAccount(client);
+  const marketplace = await resolveContract(
+    client,
+    "marketplace",
+    params.marketplace,
+  );
+
+  const approved = await readContract(client, {
+    address: params.eventAddress,
+    abi: EventAbi,
+    functionName: "isApprovedForAll",
+    args: [account.address, marketplace],
+  });
+
+  let approval: WriteResult | null = null;
+  if (!approved) {
+    const { request } = await simulateContract(client, {
+      address: params.eventAddress,
+      abi: EventAbi,
+      functionName: "setApprovalForAll",
+      args: [marketplace, true],
+      account,
+      chain: client.chain,
+    });
+    approval = await waitForReceipt(
+      client,
+      await writeContract(client, request),
+    );
+  }
+
+  const { request } = await simulateContract(client, {
+    address: marketplace,
+    abi: MarketplaceAbi,
+    functionName: "createListing",
+    args: [
+      params.eventAddress,
+      params.tierId,
+      params.quantity,
+      params.pricePerUnit,
+      params.expirationTime,
+    ],
+    account,
+    chain: client.chain,
+  });
+  const result = await waitForReceipt(
+    client,
+    await writeContract(client, request),
+  );
+
+  const [created] = parseEventLogs({
+    abi: MarketplaceAbi,
+    eventName: "ListingCreated",
+    logs: result.receipt.logs,
+  });
+  if (!created) {
+    throw new SdkError(`No ListingCreated log in transaction ${result.hash}`);
+  }
+
+  return { ...result, listingId: created.args.listingId, approval };
+}
+
+// Buy from a listing; msg.value is the listing's price per unit times quantity
+export async function buyListing(
+  client: SdkClient,
+  {
+    listingId,
+    quantity,
+    marketplace,
+  }: { listingId: bigint; quantity: bigint; marketplace?: Address },
+): Promise<WriteResult & { totalPaid: bigint }> {
+  const account = requireAccount(client);
+  const address = await resolveContract(client, "marketplace", marketplace);
+  const listing = await getListing(client, listingId, address);
+  const value = listing.pricePerUnit * quantity;
+
+  const { request } = await simulateContract(client, {
+    address,
+    abi: MarketplaceAbi,
+    functionName: "buyListing",
+    args: [listingId, quantity],
+    value,
+    account,
+    chain: client.chain,
+  });
+  const result = await waitForReceipt(
+    client,
+    await writeContract(client, request),
+  );
+  return { ...result, totalPaid: value };
+}
+
+// Seller only
+export async function cancelListing(
+  client: SdkClient,
+  { listingId, marketplace }: { listingId: bigint; marketplace?: Address },
+): Promise<WriteResult> {
+  const { request } = await simulateContract(client, {
+    address: await resolveContract(client, "marketplace", marketplace),
+    abi: MarketplaceAbi,
+    functionName: "cancelListing",
+    args: [listingId],
+    account: requireAccount(client),
+    chain: client.chain,
+  });
+  return waitForReceipt(client, await writeContract(client, request));
+}
+
+// Seller only
+export async function updateListingPrice(
+  client: SdkClient,
+  {
+    listingId,
+    newPrice,
+    marketplace,
+  }: { listingId: bigint; newPrice: bigint; marketplace?: Address },
+): Promise<WriteResult> {
+  const { request } = await simulateContract(client, {
+    address: await resolveContract(client, "marketplace", marketplace),
+    abi: MarketplaceAbi,
+    functionName: "updateListingPrice",
+    args: [listingId, newPrice],
+    account: requireAccount(client),
+    chain: client.chain,
+  });
+  return waitForReceipt(client, await writeContract(client, request));
+}
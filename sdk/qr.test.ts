@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+import { createWalletClient, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import {
+  base45Decode,
+  base45Encode,
+  createRedemptionQr,
+  decodeRedemptionQr,
+  encodeRedemptionQr,
+  RedemptionQrError,
+  type RedemptionQrErrorCode,
+  verifyRedemptionQr,
+} from "./qr";
+
+// anvil account #1; signing is local, the transport is never called
+const holder = createWalletClient({
+  account: privateKeyToAccount(
+    "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  ),
+  chain: foundry,
+  transport: http("http://127.0.0.1:0"),
+});
+const eventAddress = "0x75537828f2ce51be7289709686A69CbFDbB714F1";
+const otherEvent = "0xE451980132E65465d0a498c53f0b5227326Dd73F";
+const now = 1_700_000_000n;
+
+function signQr(overrides: { nonce?: bigint; deadline?: bigint } = {}) {
+  return createRedemptionQr(holder, {
+    eventAddress,
+    tierId: 2n,
+    nonce: overrides.nonce ?? 7n,
+    deadline: overrides.deadline ?? now + 300n,
+  });
+}
+
+async function expectQrError(
+  promise: Promise<unknown> | (() => unknown),
+  code: RedemptionQrErrorCode,
+) {
+  try {
+    await (typeof promise === "function" ? promise() : promise);
+  } catch (error) {
+    expect(error).toBeInstanceOf(RedemptionQrError);
+    expect((error as RedemptionQrError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected RedemptionQrError ${code}`);
+}
+
+describe("base45", () => {
+  test("matches the RFC 9285 examples", () => {
+    const encoder = new TextEncoder();
+    expect(base45Encode(encoder.encode("AB"))).toBe("BB8");
+    expect(base45Encode(encoder.encode("Hello!!"))).toBe("%69 VD92EX0");
+    expect(base45Encode(encoder.encode("base-45"))).toBe("UJCLQE7W581");
+    expect(new TextDecoder().decode(base45Decode("QED8WEX0"))).toBe("ietf!");
+  });
+
+  test("round-trips arbitrary bytes", () => {
+    const bytes = Uint8Array.from({ length: 257 }, (_, i) => (i * 37) % 256);
+    expect(base45Decode(base45Encode(bytes))).toEqual(bytes);
+  });
+
+  test("rejects invalid input", async () => {
+    await expectQrError(() => base45Decode("A"), "Malformed");
+    await expectQrError(() => base45Decode("ab"), "Malformed");
+    await expectQrError(() => base45Decode("GGW"), "Malformed");
+  });
+});
+
+describe("redemption QR", () => {
+  test("sign, encode, decode and verify round-trip", async () => {
+    const { payload, qr } = await signQr();
+    expect(qr).toMatch(/^[0-9A-Z $%*+\-./:]+$/);
+    expect(decodeRedemptionQr(qr)).toEqual(payload);
+    expect(encodeRedemptionQr(decodeRedemptionQr(qr))).toBe(qr);
+
+    const verified = await verifyRedemptionQr(qr, {
+      chainId: foundry.id,
+      eventAddress,
+      now,
+    });
+    expect(verified).toEqual(payload);
+    expect(verified.ticketHolder).toBe(holder.account.address);
+  });
+
+  test("accepts surrounding whitespace from scanners", async () => {
+    const { payload, qr } = await signQr();
+    expect(decodeRedemptionQr(` ${qr}\n`)).toEqual(payload);
+  });
+
+  test("rejects a QR for another chain", async () => {
+    const { qr } = await signQr();
+    await expectQrError(
+      verifyRedemptionQr(qr, { chainId: 1983, eventAddress, now }),
+      "WrongChain",
+    );
+  });
+
+  test("rejects a QR for another event", async () => {
+    const { qr } = await signQr();
+    await expectQrError(
+      verifyRedemptionQr(qr, {
+        chainId: foundry.id,
+        eventAddress: otherEvent,
+        now,
+      }),
+      "WrongEvent",
+    );
+  });
+
+  test("rejects an expired QR", async () => {
+    const { qr } = await signQr({ deadline: now - 1n });
+    await expectQrError(
+      verifyRedemptionQr(qr, { chainId: foundry.id, eventAddress, now }),
+      "Expired",
+    );
+  });
+
+  test("rejects a QR whose fields no longer match the signature", async () => {
+    const { payload } = await signQr();
+    const tampered = encodeRedemptionQr({ ...payload, tierId: 1n });
+    await expectQrError(
+      verifyRedemptionQr(tampered, {
+        chainId: foundry.id,
+        eventAddress,
+        now,
+      }),
+      "InvalidSignature",
+    );
+  });
+
+  test("rejects truncated, padded and unknown-version payloads", async () => {
+    const { qr } = await signQr();
+    const bytes = base45Decode(qr);
+
+    await expectQrError(
+      () => decodeRedemptionQr(base45Encode(bytes.slice(0, -1))),
+      "Malformed",
+    );
+    await expectQrError(
+      () => decodeRedemptionQr(base45Encode(Uint8Array.of(...bytes, 0))),
+      "Malformed",
+    );
+    await expectQrError(() => decodeRedemptionQr("not a qr"), "Malformed");
+    const nextVersion = Uint8Array.of(2, ...bytes.slice(1));
+    await expectQrError(
+      () => decodeRedemptionQr(base45Encode(nextVersion)),
+      "UnsupportedVersion",
+    );
+  });
+});
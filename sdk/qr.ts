@@ -0,0 +1,303 @@
+import {
+  bytesToHex,
+  compactSignatureToSignature,
+  getAddress,
+  hexToBytes,
+  isAddressEqual,
+  parseCompactSignature,
+  parseSignature,
+  recoverTypedDataAddress,
+  serializeCompactSignature,
+  serializeSignature,
+  signatureToCompactSignature,
+} from "viem";
+import type { Address } from "./deployments";
+import {
+  REDEMPTION_DOMAIN,
+  REDEMPTION_TYPES,
+  type SignedRedemption,
+  signRedemption,
+} from "./event";
+import { resolveChainId, type SdkClient } from "./utils";
+
+/**
+ * Redemption QR format, version 1 (binary, then base45 per RFC 9285 so it
+ * fits the QR alphanumeric mode):
+ *
+ *   version      1 byte   (0x01)
+ *   chainId      uint     (1-byte length + big-endian bytes, same for below)
+ *   eventAddress 20 bytes
+ *   ticketHolder 20 bytes
+ *   tierId       uint
+ *   nonce        uint
+ *   deadline     uint
+ *   signature    64 bytes (EIP-2098 compact r || yParityAndS)
+ *
+ * A typical payload is ~117 bytes / 176 alphanumeric characters, versus ~263
+ * bytes for the previous JSON format, which forces the denser byte mode.
+ */
+export const REDEMPTION_QR_VERSION = 1;
+
+export type RedemptionQrPayload = SignedRedemption & { chainId: number };
+
+export type RedemptionQrErrorCode =
+  | "Malformed"
+  | "UnsupportedVersion"
+  | "WrongChain"
+  | "WrongEvent"
+  | "Expired"
+  | "InvalidSignature";
+
+export class RedemptionQrError extends Error {
+  readonly code: RedemptionQrErrorCode;
+
+  constructor(code: RedemptionQrErrorCode, message: string) {
+    super(message);
+    this.name = "RedemptionQrError";
+    this.code = code;
+  }
+}
+
+// ==================== BASE45 ====================
+
+const BASE45_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+export function base45Encode(bytes: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 2) {
+    if (i + 1 < bytes.length) {
+      const n = bytes[i]! * 256 + bytes[i + 1]!;
+      out +=
+        BASE45_ALPHABET[n % 45]! +
+        BASE45_ALPHABET[Math.floor(n / 45) % 45]! +
+        BASE45_ALPHABET[Math.floor(n / 2025)]!;
+    } else {
+      const n = bytes[i]!;
+      out += BASE45_ALPHABET[n % 45]! + BASE45_ALPHABET[Math.floor(n / 45)]!;
+    }
+  }
+  return out;
+}
+
+export function base45Decode(text: string): Uint8Array {
+  if (text.length % 3 === 1) {
+    throw new RedemptionQrError("Malformed", "Invalid base45 length");
+  }
+  const values = Array.from(text, (char) => {
+    const value = BASE45_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new RedemptionQrError(
+        "Malformed",
+        `Invalid base45 character "${char}"`,
+      );
+    }
+    return value;
+  });
+
+  const out: number[] = [];
+  for (let i = 0; i < values.length; i += 3) {
+    if (i + 2 < values.length) {
+      const n = values[i]! + values[i + 1]! * 45 + values[i + 2]! * 2025;
+      if (n > 0xffff) {
+        throw new RedemptionQrError("Malformed", "Invalid base45 triplet");
+      }
+      out.push(n >> 8, n & 0xff);
+    } else {
+      const n = values[i]! + values[i + 1]! * 45;
+      if (n > 0xff) {
+        throw new RedemptionQrError("Malformed", "Invalid base45 pair");
+      }
+      out.push(n);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+// ==================== BINARY ====================
+
+function writeUint(out: number[], value: bigint) {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0n; rest >>= 8n) {
+    bytes.unshift(Number(rest & 0xffn));
+  }
+  if (value < 0n || bytes.length > 32) {
+    throw new RedemptionQrError("Malformed", "Value out of uint256 range");
+  }
+  out.push(bytes.length, ...bytes);
+}
+
+class Reader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new RedemptionQrError("Malformed", "QR payload is truncated");
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  uint(): bigint {
+    const length = this.take(1)[0]!;
+    if (length > 32) {
+      throw new RedemptionQrError("Malformed", "Integer field too long");
+    }
+    return this.take(length).reduce(
+      (value, byte) => (value << 8n) | BigInt(byte),
+      0n,
+    );
+  }
+
+  done() {
+    if (this.offset !== this.bytes.length) {
+      throw new RedemptionQrError("Malformed", "Trailing bytes in QR payload");
+    }
+  }
+}
+
+export function encodeRedemptionQr(payload: RedemptionQrPayload): string {
+  const out: number[] = [REDEMPTION_QR_VERSION];
+  writeUint(out, BigInt(payload.chainId));
+  out.push(...hexToBytes(payload.eventAddress));
+  out.push(...hexToBytes(payload.ticketHolder));
+  writeUint(out, payload.tierId);
+  writeUint(out, payload.nonce);
+  writeUint(out, payload.deadline);
+  out.push(
+    ...hexToBytes(
+      serializeCompactSignature(
+        signatureToCompactSignature(parseSignature(payload.signature)),
+      ),
+    ),
+  );
+  return base45Encode(Uint8Array.from(out));
+}
+
+// Parse only; chain, event, deadline and signature are checked by verifyRedemptionQr
+export function decodeRedemptionQr(text: string): RedemptionQrPayload {
+  const reader = new Reader(base45Decode(text.trim()));
+
+  const version = reader.take(1)[0];
+  if (version !== REDEMPTION_QR_VERSION) {
+    throw new RedemptionQrError(
+      "UnsupportedVersion",
+      `Unsupported QR version ${version}`,
+    );
+  }
+
+  const chainId = reader.uint();
+  if (chainId === 0n || chainId > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new RedemptionQrError("Malformed", "Invalid chain id");
+  }
+  const eventAddress = getAddress(bytesToHex(reader.take(20)));
+  const ticketHolder = getAddress(bytesToHex(reader.take(20)));
+  const tierId = reader.uint();
+  const nonce = reader.uint();
+  const deadline = reader.uint();
+
+  let signature: `0x${string}`;
+  try {
+    signature = serializeSignature(
+      compactSignatureToSignature(
+        parseCompactSignature(bytesToHex(reader.take(64))),
+      ),
+    );
+  } catch (error) {
+    if (error instanceof RedemptionQrError) {
+      throw error;
+    }
+    throw new RedemptionQrError("Malformed", "Invalid signature encoding");
+  }
+  reader.done();
+
+  return {
+    chainId: Number(chainId),
+    eventAddress,
+    ticketHolder,
+    tierId,
+    nonce,
+    deadline,
+    signature,
+  };
+}
+
+// ==================== SIGN / VERIFY ====================
+
+// Holder side: sign a RedeemTicket message and encode it as QR text
+export async function createRedemptionQr(
+  client: SdkClient,
+  params: Parameters<typeof signRedemption>[1],
+): Promise<{ payload: RedemptionQrPayload; qr: string }> {
+  const [chainId, signed] = await Promise.all([
+    resolveChainId(client),
+    signRedemption(client, params),
+  ]);
+  const payload = { ...signed, chainId };
+  return { payload, qr: encodeRedemptionQr(payload) };
+}
+
+/**
+ * Scanner side: decode a QR and check it targets this chain and event, has
+ * not expired and was signed by the ticket holder. Whether the nonce is still
+ * current and the holder still has a ticket needs chain or indexer state.
+ */
+export async function verifyRedemptionQr(
+  text: string,
+  {
+    chainId,
+    eventAddress,
+    now = BigInt(Math.floor(Date.now() / 1000)),
+  }: { chainId: number; eventAddress: Address; now?: bigint },
+): Promise<RedemptionQrPayload> {
+  const payload = decodeRedemptionQr(text);
+
+  if (payload.chainId !== chainId) {
+    throw new RedemptionQrError(
+      "WrongChain",
+      `QR was signed for chain ${payload.chainId}, expected ${chainId}`,
+    );
+  }
+  if (!isAddressEqual(payload.eventAddress, eventAddress)) {
+    throw new RedemptionQrError(
+      "WrongEvent",
+      `QR was signed for event ${payload.eventAddress}`,
+    );
+  }
+  // redeemTicket reverts when block.timestamp > deadline
+  if (now > payload.deadline) {
+    throw new RedemptionQrError("Expired", "QR code has expired");
+  }
+
+  let signer: Address;
+  try {
+    signer = await recoverTypedDataAddress({
+      domain: {
+        ...REDEMPTION_DOMAIN,
+        chainId: payload.chainId,
+        verifyingContract: payload.eventAddress,
+      },
+      types: REDEMPTION_TYPES,
+      primaryType: "RedeemTicket",
+      message: {
+        ticketHolder: payload.ticketHolder,
+        tierId: payload.tierId,
+        nonce: payload.nonce,
+        deadline: payload.deadline,
+      },
+      signature: payload.signature,
+    });
+  } catch {
+    throw new RedemptionQrError("InvalidSignature", "Signature is invalid");
+  }
+  if (!isAddressEqual(signer, payload.ticketHolder)) {
+    throw new RedemptionQrError(
+      "InvalidSignature",
+      "QR was not signed by the ticket holder",
+    );
+  }
+
+  return payload;
+}
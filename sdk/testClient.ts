@@ -0,0 +1,158 @@
+import {
+  type Abi,
+  createWalletClient,
+  custom,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  type Hex,
+  numberToHex,
+  RpcRequestError,
+} from "viem";
+import { foundry } from "viem/chains";
+import { EventAbi, EventFactoryAbi, MarketplaceAbi } from "./abis";
+import type { Address } from "./deployments";
+
+// Test helper, not exported from the SDK: a wallet client whose RPC is
+// answered in-process, so write paths run without a node
+
+const ABI = [...EventAbi, ...EventFactoryAbi, ...MarketplaceAbi] as Abi;
+
+export type MockCall = {
+  to: Address;
+  functionName: string;
+  args: readonly unknown[];
+  value: bigint;
+};
+
+export type MockLog = {
+  address: Address;
+  eventName: string;
+  args: Record<string, unknown>;
+};
+
+export type MockChain = {
+  // Results of eth_call by function name; functions without outputs may be
+  // left out
+  reads?: Record<string, (call: MockCall) => unknown>;
+  // Logs emitted by a sent transaction
+  logs?: (call: MockCall) => MockLog[];
+};
+
+function encodeLog({ address, eventName, args }: MockLog) {
+  const event = ABI.find(
+    (item) => item.type === "event" && item.name === eventName,
+  );
+  if (!event || event.type !== "event") {
+    throw new Error(`Unknown event ${eventName}`);
+  }
+  const data = event.inputs.filter((input) => !input.indexed);
+  return {
+    address,
+    topics: encodeEventTopics({ abi: [event], eventName, args } as never),
+    data: encodeAbiParameters(
+      data,
+      data.map((input) => args[input.name!]),
+    ),
+  };
+}
+
+export function mockClient(
+  account: Address,
+  { reads = {}, logs = () => [] }: MockChain = {},
+) {
+  // Every sent transaction, in order
+  const sent: MockCall[] = [];
+  const receipts = new Map<Hex, ReturnType<typeof encodeLog>[]>();
+
+  const decode = (tx: { to: Address; data: Hex; value?: Hex }): MockCall => {
+    const { functionName, args = [] } = decodeFunctionData({
+      abi: ABI,
+      data: tx.data,
+    });
+    return {
+      to: tx.to,
+      functionName,
+      args,
+      value: BigInt(tx.value ?? "0x0"),
+    };
+  };
+
+  const request = async ({
+    method,
+    params,
+  }: {
+    method: string;
+    params?: unknown;
+  }) => {
+    const [tx] = (params ?? []) as [
+      { to: Address; data: Hex; value?: Hex },
+      ...unknown[],
+    ];
+    switch (method) {
+      case "eth_chainId":
+        return numberToHex(foundry.id);
+      case "eth_blockNumber":
+        return numberToHex(sent.length + 1);
+      case "eth_call": {
+        const call = decode(tx);
+        const read = reads[call.functionName];
+        const result = read ? read(call) : undefined;
+        return encodeFunctionResult({
+          abi: ABI,
+          functionName: call.functionName,
+          result,
+        } as never);
+      }
+      case "eth_sendTransaction": {
+        const call = decode(tx);
+        sent.push(call);
+        const hash = numberToHex(sent.length, { size: 32 });
+        receipts.set(hash, logs(call).map(encodeLog));
+        return hash;
+      }
+      case "eth_getTransactionReceipt": {
+        const [hash] = params as [Hex];
+        const blockNumber = numberToHex(Number(BigInt(hash)) + 1);
+        const blockHash = numberToHex(BigInt(hash) + 1n, { size: 32 });
+        return {
+          transactionHash: hash,
+          transactionIndex: "0x0",
+          blockHash,
+          blockNumber,
+          from: account,
+          to: null,
+          contractAddress: null,
+          cumulativeGasUsed: "0x0",
+          gasUsed: "0x0",
+          effectiveGasPrice: "0x0",
+          logsBloom: `0x${"0".repeat(512)}`,
+          status: "0x1",
+          type: "0x2",
+          logs: receipts.get(hash)!.map((log, index) => ({
+            ...log,
+            blockHash,
+            blockNumber,
+            transactionHash: hash,
+            transactionIndex: "0x0",
+            logIndex: numberToHex(index),
+            removed: false,
+          })),
+        };
+      }
+    }
+    throw new RpcRequestError({
+      body: { method, params },
+      error: { code: -32601, message: `${method} is not mocked` },
+      url: "mock",
+    });
+  };
+
+  const client = createWalletClient({
+    account,
+    chain: foundry,
+    transport: custom({ request }, { retryCount: 0 }),
+  });
+  return { client, sent };
+}
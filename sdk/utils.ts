@@ -0,0 +1,68 @@
+import type {
+  Account,
+  Chain,
+  Client,
+  Hash,
+  TransactionReceipt,
+  Transport,
+} from "viem";
+import { getChainId, waitForTransactionReceipt } from "viem/actions";
+import {
+  type Address,
+  type DeploymentContracts,
+  getDeployment,
+} from "./deployments";
+
+// Any viem client: public, wallet, test (anvil) or an extended combination
+export type SdkClient = Client<
+  Transport,
+  Chain | undefined,
+  Account | undefined
+>;
+
+export type WriteResult = { hash: Hash; receipt: TransactionReceipt };
+
+export class SdkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SdkError";
+  }
+}
+
+// Chain id from the client's chain, falling back to eth_chainId
+export async function resolveChainId(client: SdkClient): Promise<number> {
+  return client.chain?.id ?? (await getChainId(client));
+}
+
+// Explicit address wins (e.g. a local anvil deployment), else the registry
+// entry for the client's chain
+export async function resolveContract(
+  client: SdkClient,
+  name: keyof DeploymentContracts,
+  address?: Address,
+): Promise<Address> {
+  if (address) {
+    return address;
+  }
+  return getDeployment(await resolveChainId(client)).contracts[name];
+}
+
+export function requireAccount(client: SdkClient): Account {
+  if (!client.account) {
+    throw new SdkError(
+      "Client has no account; create it with an account to send transactions",
+    );
+  }
+  return client.account;
+}
+
+export async function waitForReceipt(
+  client: SdkClient,
+  hash: Hash,
+): Promise<WriteResult> {
+  const receipt = await waitForTransactionReceipt(client, { hash });
+  if (receipt.status !== "success") {
+    throw new SdkError(`Transaction ${hash} reverted`);
+  }
+  return { hash, receipt };
+}